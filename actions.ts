@@ -1,8 +1,13 @@
-import { QueryState } from './query'
+import { DehydratedState, rehydrate } from './hydration'
+import { KeyMatcher } from './keys'
+import { Entities } from './normalize'
+import { QueryBranch, QueryOptions, QueryState } from './query'
+import { ShareOptions } from './share'
 
 export interface Save {
   key: string
   data: {}
+  options?: ShareOptions
 }
 /**
  * Action stores fetcher data. key is usually unique per URL path, and should probably be similar to URL path.
@@ -10,6 +15,9 @@ export interface Save {
  * @param payload - Payload object
  * @param payload.key - Key in query branch at which to save data
  * @param payload.data - Data object
+ * @param payload.options - Options object with structuralSharing and bumpDataMs properties; unchanged parts of data keep
+ *  their references unless structuralSharing is false, and dataMs isn't updated if data is unchanged and bumpDataMs is
+ *  false
  *
  * @returns Redux action object
  */
@@ -23,6 +31,7 @@ export function save(payload: Save): Action {
 export interface Update<D> {
   key: string
   updater: (data: D | undefined) => D | undefined | null
+  options?: ShareOptions
 }
 /**
  * Like save, but takes an updater function, which receives the data at key and must return updated data, undefined, or
@@ -35,6 +44,7 @@ export interface Update<D> {
  * @param payload.key - Key in query branch at which to save data
  * @param payload.updater - Function that receives data at key and must return updated data, undefined, or null
  * @param payload.newData - If this is passed, updater receives this as second argument
+ * @param payload.options - Options object with structuralSharing and bumpDataMs properties, like in save
  *
  * @returns Redux action object
  */
@@ -48,7 +58,7 @@ export function update<D extends {} = any>(payload: Update<D>): Action {
 export interface UpdateQueryState {
   key: string
   state: Partial<QueryState>
-  options?: { saveStaleResponse?: boolean }
+  options?: { saveStaleResponse?: boolean } & ShareOptions
 }
 /**
  * Action updates query state. key is usually unique per URL path, and should probably be similar to URL path.
@@ -69,7 +79,151 @@ export function updateQueryState(payload: UpdateQueryState): Action {
   }
 }
 
+export interface Evict {
+  keys: string[]
+}
+/**
+ * Action removes query states at keys from query branch. RRQ dispatches this to evict keys that have no subscribers; see
+ * cacheTimeMs and cacheMaxEntries options.
+ *
+ * @param payload - Payload object
+ * @param payload.keys - Keys in query branch to remove
+ *
+ * @returns Redux action object
+ */
+export function evict(payload: Evict): Action {
+  return {
+    type: 'REACT_REDUX_QUERY_EVICT',
+    payload,
+  }
+}
+
+export interface Invalidate {
+  matcher: KeyMatcher
+}
+/**
+ * Action marks query states at matching keys as invalidated. useQuery refetches invalidated data when it mounts, even if
+ * noRefetch is true. To also refetch data for mounted useQuery hooks, call invalidateQueries instead.
+ *
+ * @param matcher - Key, object with key prefix, or predicate function that receives key and returns true if it matches
+ *
+ * @returns Redux action object
+ */
+export function invalidate(matcher: KeyMatcher): Action {
+  return {
+    type: 'REACT_REDUX_QUERY_INVALIDATE',
+    payload: { matcher },
+  }
+}
+
+export interface Hydrate {
+  state: QueryBranch
+}
+/**
+ * Action merges dehydrated query states into query branch, e.g. to hydrate query branch rendered on server. Query state
+ * at key isn't overwritten if its data is at least as recent as dehydrated data.
+ *
+ * @param payload - Payload object
+ * @param payload.state - Dehydrated query branch returned by dehydrate
+ *
+ * @returns Redux action object
+ */
+export function hydrate(payload: { state: DehydratedState }): Action {
+  return {
+    type: 'REACT_REDUX_QUERY_HYDRATE',
+    payload: { state: rehydrate(payload.state) },
+  }
+}
+
+export interface SaveEntities {
+  entities: Entities
+}
+/**
+ * Action merges normalized entities into entities at ENTITIES_KEY. query dispatches this when schema option is passed.
+ *
+ * @param payload - Payload object
+ * @param payload.entities - Entities by type and id, e.g. as returned by normalize
+ *
+ * @returns Redux action object
+ */
+export function saveEntities(payload: SaveEntities): Action {
+  return {
+    type: 'REACT_REDUX_QUERY_SAVE_ENTITIES',
+    payload,
+  }
+}
+
+export interface UpdateEntity<E> {
+  type: string
+  id: string | number
+  updater: (entity: E | undefined) => E | undefined | null
+}
+/**
+ * Like update, but for one normalized entity. Every query whose data references entity reflects the update.
+ *
+ * - If updater returns undefined, don't modify entity
+ * - If updater returns null, remove entity
+ *
+ * @param payload - Payload object
+ * @param payload.type - Entity type, i.e. name of entity schema
+ * @param payload.id - Entity id
+ * @param payload.updater - Function that receives entity and must return updated entity, undefined, or null
+ *
+ * @returns Redux action object
+ */
+export function updateEntity<E extends {} = any>(payload: UpdateEntity<E>): Action {
+  return {
+    type: 'REACT_REDUX_QUERY_UPDATE_ENTITY',
+    payload,
+  }
+}
+
+export interface FetchQuery {
+  key: string
+  fetcher: string
+  args?: any
+  options?: FetchQueryOptions
+}
+export type FetchQueryOptions = Pick<
+  QueryOptions<any>,
+  | 'dedupe'
+  | 'dedupeMs'
+  | 'catchError'
+  | 'saveStaleResponse'
+  | 'abortPrevious'
+  | 'retry'
+  | 'retryJitter'
+  | 'cacheTimeMs'
+  | 'cacheMaxEntries'
+  | 'structuralSharing'
+  | 'bumpDataMs'
+>
+/**
+ * Serializable action that calls query for key; handled by query middleware, which looks up fetcher by id. Dispatching
+ * this action returns promise returned by query.
+ *
+ * @param payload - Payload object
+ * @param payload.key - Key in query branch at which to store response
+ * @param payload.fetcher - Id of fetcher passed to createQueryMiddleware
+ * @param payload.args - Arguments passed to fetcher
+ * @param payload.options - Serializable query options
+ *
+ * @returns Redux action object
+ */
+export function fetchQuery(payload: FetchQuery): Action {
+  return {
+    type: 'REACT_REDUX_QUERY_FETCH',
+    payload,
+  }
+}
+
 export type Action =
   | { type: 'REACT_REDUX_QUERY_SAVE_DATA'; payload: Save }
   | { type: 'REACT_REDUX_QUERY_UPDATE_DATA'; payload: Update<any> }
   | { type: 'REACT_REDUX_QUERY_UPDATE_QUERY_STATE'; payload: UpdateQueryState }
+  | { type: 'REACT_REDUX_QUERY_EVICT'; payload: Evict }
+  | { type: 'REACT_REDUX_QUERY_INVALIDATE'; payload: Invalidate }
+  | { type: 'REACT_REDUX_QUERY_HYDRATE'; payload: Hydrate }
+  | { type: 'REACT_REDUX_QUERY_SAVE_ENTITIES'; payload: SaveEntities }
+  | { type: 'REACT_REDUX_QUERY_UPDATE_ENTITY'; payload: UpdateEntity<any> }
+  | { type: 'REACT_REDUX_QUERY_FETCH'; payload: FetchQuery }
@@ -0,0 +1,119 @@
+import { stableStringify } from './keys'
+
+export type BatchResults<R> = (R | Error)[] | { [id: string]: R | Error | undefined }
+
+export interface BatcherOptions<P, R> {
+  fetcher: (params: P[], signal: AbortSignal) => Promise<BatchResults<R>>
+  windowMs?: number
+  maxSize?: number
+  getId?: (params: P) => string
+}
+
+interface BatchEntry<P, R> {
+  id: string
+  params: P
+  requests: {
+    signal?: AbortSignal
+    resolve: (result: R) => void
+    reject: (error: {}) => void
+  }[]
+}
+
+/**
+ * Creates batcher, which coalesces requests for many keys into one call to batch fetcher, e.g. for bulk endpoints.
+ * Requests sent within windowMs of first request in batch are sent together; batch is sent right away if it reaches
+ * maxSize. Requests with same params in one batch are only sent once.
+ *
+ * Pass batcher.fetcher(params) to useQuery, useQueries or query for each key. Each key still has its own query state,
+ * inFlight array, retries and lifecycle events; only the network call is shared.
+ *
+ * Batch fetcher returns array of results in same order as params, or object with results by id. If result for params
+ * is Error instance, or is missing, only request for these params fails; if batch fetcher throws error, every request
+ * in batch fails.
+ *
+ * @param options - Options object
+ * @param options.fetcher - Function that receives array of params and AbortSignal, and returns results (required)
+ * @param options.windowMs - Wait this many ms after first request before sending batch (0 by default, which batches
+ *  requests sent in same tick)
+ * @param options.maxSize - Max number of params in batch (no max by default)
+ * @param options.getId - Function that receives params and returns id, used to find params' result in object returned
+ *  by batch fetcher, and to dedupe params (stableStringify by default, so property order doesn't matter, or string as
+ *  is)
+ *
+ * @returns Object with load, which receives params and AbortSignal, and returns result for params; and fetcher, which
+ *  receives params and returns fetcher that can be passed to useQuery
+ */
+export function createBatcher<P, R>(options: BatcherOptions<P, R>) {
+  const { fetcher, windowMs = 0, maxSize = Infinity } = options
+  const getId = options.getId || ((params: P) => (typeof params === 'string' ? params : stableStringify(params)))
+
+  let batch: BatchEntry<P, R>[] = []
+  let timeoutId: ReturnType<typeof setTimeout> | undefined
+
+  const send = async () => {
+    clearTimeout(timeoutId as ReturnType<typeof setTimeout>)
+    timeoutId = undefined
+    // Requests aborted before batch is sent are left out of it
+    const entries = batch
+      .map((entry) => ({ ...entry, requests: entry.requests.filter(({ signal }) => !signal?.aborted) }))
+      .filter((entry) => entry.requests.length)
+    batch = []
+    if (!entries.length) return
+
+    // Batch is only aborted once every request in it is aborted
+    const abortController = new AbortController()
+    const signals: (AbortSignal | undefined)[] = []
+    for (const entry of entries) for (const { signal } of entry.requests) signals.push(signal)
+    const abortIfAllAborted = () => {
+      if (signals.every((signal) => signal?.aborted)) abortController.abort()
+    }
+    for (const signal of signals) signal?.addEventListener('abort', abortIfAllAborted)
+
+    let results: BatchResults<R>
+    try {
+      results = await fetcher(
+        entries.map(({ params }) => params),
+        abortController.signal,
+      )
+    } catch (e) {
+      for (const entry of entries) for (const { reject } of entry.requests) reject(e)
+      return
+    } finally {
+      for (const signal of signals) signal?.removeEventListener('abort', abortIfAllAborted)
+    }
+
+    entries.forEach((entry, idx) => {
+      const result = Array.isArray(results) ? results[idx] : results[entry.id]
+      for (const { resolve, reject } of entry.requests) {
+        if (result instanceof Error) reject(result)
+        else if (result === undefined) reject(new Error(`react-redux-query: no result for "${entry.id}" in batch`))
+        else resolve(result)
+      }
+    })
+  }
+
+  const load = (params: P, signal?: AbortSignal) => {
+    return new Promise<R>((resolve, reject) => {
+      const abortError = { name: 'AbortError', message: 'Request aborted' }
+      if (signal?.aborted) return reject(abortError)
+      // Promise is settled right away if its request is aborted, even if batch is still in flight
+      signal?.addEventListener('abort', () => reject(abortError))
+
+      const id = getId(params)
+      let entry = batch.find((entry) => entry.id === id)
+      if (!entry) {
+        entry = { id, params, requests: [] }
+        batch.push(entry)
+      }
+      entry.requests.push({ signal, resolve, reject })
+
+      if (batch.length >= maxSize) send()
+      else if (timeoutId === undefined) timeoutId = setTimeout(send, windowMs)
+    })
+  }
+
+  return {
+    load,
+    fetcher: (params: P) => (signal: AbortSignal) => load(params, signal),
+  }
+}
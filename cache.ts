@@ -0,0 +1,155 @@
+import { Dispatch } from 'redux'
+
+import { evict } from './actions'
+import { ENTITIES_KEY } from './normalize'
+import { getScope } from './scope'
+
+export interface CacheEntry {
+  subscribers: number
+  timeoutId?: ReturnType<typeof setTimeout>
+  cacheTimeMs?: number
+}
+
+export interface CacheOptions {
+  cacheTimeMs?: number
+  cacheMaxEntries?: number
+}
+
+/**
+ * Marks key as used by a subscriber, e.g. a mounted hook or an in-flight request. Keys with subscribers are never
+ * evicted. Also moves key to end of LRU list, and evicts least recently used keys without subscribers if there are more
+ * than cacheMaxEntries keys.
+ *
+ * @param dispatch - Dispatch function of store
+ * @param key - Key in query branch
+ * @param options - Options object
+ * @param options.cacheMaxEntries - Max number of keys to keep in query branch (no max by default)
+ */
+export function retainKey(dispatch: Dispatch, key: string, options: CacheOptions = {}) {
+  const entries = getScope(dispatch).cacheEntries
+  const entry = entries.get(key) || { subscribers: 0 }
+
+  clearTimeout(entry.timeoutId as ReturnType<typeof setTimeout>)
+  entry.timeoutId = undefined
+  entry.subscribers += 1
+  touch(entries, key, entry)
+
+  pruneKeys(dispatch, options.cacheMaxEntries)
+}
+
+/**
+ * Removes subscriber from key. If key has no subscribers left, query state at key is evicted after cacheTimeMs. If
+ * cacheTimeMs isn't passed, last cacheTimeMs passed for key is used, so releasing key without it, e.g. after query
+ * that doesn't pass cacheTimeMs, doesn't cancel its eviction.
+ *
+ * @param dispatch - Dispatch function of store
+ * @param key - Key in query branch
+ * @param options - Options object
+ * @param options.cacheTimeMs - Evict query state at key this many ms after last subscriber is removed (last cacheTimeMs
+ *  passed for key, or never evicted, by default)
+ * @param options.cacheMaxEntries - Max number of keys to keep in query branch (no max by default)
+ */
+export function releaseKey(dispatch: Dispatch, key: string, options: CacheOptions = {}) {
+  const entries = getScope(dispatch).cacheEntries
+  const entry = entries.get(key)
+  if (!entry) return
+
+  if (options.cacheTimeMs !== undefined) entry.cacheTimeMs = options.cacheTimeMs
+  entry.subscribers = Math.max(entry.subscribers - 1, 0)
+  touch(entries, key, entry)
+
+  if (entry.subscribers === 0 && scheduleEviction(dispatch, key, entry, entry.cacheTimeMs)) return
+  pruneKeys(dispatch, options.cacheMaxEntries)
+}
+
+/**
+ * Tracks keys written without a subscriber, e.g. by save or hydrate action, so they're evicted like keys whose last
+ * subscriber was removed. Query state at each key without subscribers is evicted cacheTimeMs after it was last written,
+ * unless a subscriber shows up first; keys with subscribers are just moved to end of LRU list. Entities aren't tracked,
+ * because they're shared by every key that references them.
+ *
+ * @param dispatch - Dispatch function of store
+ * @param keys - Keys in query branch
+ * @param options - Options object
+ * @param options.cacheTimeMs - Evict query state at key this many ms after it's tracked (last cacheTimeMs passed for
+ *  key, or never evicted, by default)
+ * @param options.cacheMaxEntries - Max number of keys to keep in query branch (no max by default)
+ */
+export function trackKeys(dispatch: Dispatch, keys: string[], options: CacheOptions = {}) {
+  const entries = getScope(dispatch).cacheEntries
+
+  for (const key of keys) {
+    if (key === ENTITIES_KEY) continue
+    const entry = entries.get(key) || { subscribers: 0 }
+    if (options.cacheTimeMs !== undefined) entry.cacheTimeMs = options.cacheTimeMs
+    touch(entries, key, entry)
+    if (entry.subscribers > 0) continue
+
+    // Eviction timer restarts on every write
+    clearTimeout(entry.timeoutId as ReturnType<typeof setTimeout>)
+    entry.timeoutId = undefined
+    scheduleEviction(dispatch, key, entry, entry.cacheTimeMs)
+  }
+
+  pruneKeys(dispatch, options.cacheMaxEntries)
+}
+
+/**
+ * Gets number of subscribers for key.
+ *
+ * @param dispatch - Dispatch function of store
+ * @param key - Key in query branch
+ *
+ * @returns Number of subscribers
+ */
+export function getSubscriberCount(dispatch: Dispatch, key: string) {
+  return getScope(dispatch).cacheEntries.get(key)?.subscribers || 0
+}
+
+// Returns true if key was evicted right away
+function scheduleEviction(dispatch: Dispatch, key: string, entry: CacheEntry, cacheTimeMs: number | undefined) {
+  if (cacheTimeMs === undefined || cacheTimeMs === Infinity) return false
+  if (cacheTimeMs <= 0) {
+    evictKeys(dispatch, [key])
+    return true
+  }
+
+  const entries = getScope(dispatch).cacheEntries
+  entry.timeoutId = setTimeout(() => {
+    if (entries.get(key) === entry && entry.subscribers === 0) evictKeys(dispatch, [key])
+  }, cacheTimeMs)
+  return false
+}
+
+// Map iterates in insertion order, so deleting and reinserting key moves it to end of LRU list
+function touch(entries: Map<string, CacheEntry>, key: string, entry: CacheEntry) {
+  entries.delete(key)
+  entries.set(key, entry)
+}
+
+function pruneKeys(dispatch: Dispatch, cacheMaxEntries: number | undefined) {
+  if (cacheMaxEntries === undefined) return
+
+  const entries = getScope(dispatch).cacheEntries
+  let excess = entries.size - cacheMaxEntries
+  if (excess <= 0) return
+
+  const keys: string[] = []
+  entries.forEach((entry, key) => {
+    if (excess <= 0 || entry.subscribers > 0) return
+    keys.push(key)
+    excess -= 1
+  })
+  if (keys.length) evictKeys(dispatch, keys)
+}
+
+function evictKeys(dispatch: Dispatch, keys: string[]) {
+  const { cacheEntries: entries, fetchStateByKey } = getScope(dispatch)
+  for (const key of keys) {
+    clearTimeout(entries.get(key)?.timeoutId as ReturnType<typeof setTimeout>)
+    entries.delete(key)
+    // Evicted keys have no in-flight requests, so deleting their fetch state only resets dedupe
+    delete fetchStateByKey[key]
+  }
+  dispatch(evict({ keys }))
+}
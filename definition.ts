@@ -0,0 +1,133 @@
+import { Dispatch } from 'redux'
+
+import { Action, save, update } from './actions'
+import { createKey, KeyMatcher } from './keys'
+import {
+  invalidateQueries,
+  query,
+  QueryOptions,
+  QueryResponse,
+  QueryStateOptions,
+  StateKey,
+  useQuery,
+  UseQueryOptions,
+  useQueryState,
+} from './query'
+
+type ResponseData<R> = R extends { queryData: null | undefined | infer D } ? D : NonNullable<R>
+
+export interface QueryDefinitionOptions<P, R extends QueryResponse<{}>> {
+  key: string | ((params: P) => string)
+  fetcher: (params: P, signal: AbortSignal) => Promise<R>
+  options?: Omit<UseQueryOptions<[], ResponseData<R>>, 'stateKeys' | 'compare' | 'select'>
+  maxMatchedKeys?: number
+}
+
+/**
+ * Creates typed query definition, which ties key, fetcher and data type together. Definition's functions take params
+ * instead of key, so keys can't be mistyped, and data type is inferred from fetcher.
+ *
+ * If key is string, it's used as name of key, and params are appended to it; object params are serialized with
+ * stableStringify, so objects with same properties always map to same key. If key is function, it receives params and
+ * returns key; key function can't be inverted, so matcher without params only matches last maxMatchedKeys keys it
+ * returned, for every store.
+ *
+ * @param definition - Definition object
+ * @param definition.key - Name of key, or function that receives params and returns key
+ * @param definition.fetcher - Function that receives params and AbortSignal, and returns response with optional
+ *  queryData property
+ * @param definition.options - Default options for useQuery and query
+ * @param definition.maxMatchedKeys - If key is function, max number of keys it returned to remember for matcher, least
+ *  recently returned keys first to be forgotten (1000 by default)
+ *
+ * @returns Query definition, with key, matcher, useQuery, useQueryState, query, save, update and invalidate functions
+ */
+export function defineQuery<P = void, R extends QueryResponse<{}> = any>(definition: QueryDefinitionOptions<P, R>) {
+  type D = ResponseData<R>
+  const { fetcher, options: defaultOptions = {}, maxMatchedKeys = 1000 } = definition
+
+  // Set iterates in insertion order, so deleting and reinserting key moves it to end, and first key is least recent
+  const keys = new Set<string>()
+
+  const key = (params: P) => {
+    const { key } = definition
+    if (typeof key === 'string') return createKey(key, params)
+    const queryKey = key(params)
+    keys.delete(queryKey)
+    keys.add(queryKey)
+    if (keys.size > maxMatchedKeys) keys.delete(keys.values().next().value)
+    return queryKey
+  }
+
+  // Without params, name matches all keys for definition, and key function matches keys it returned
+  const matcher = (params?: P): KeyMatcher => {
+    if (params !== undefined) return key(params)
+    const { key: name } = definition
+    if (typeof name === 'string') return (queryKey) => queryKey === name || queryKey.startsWith(`${name}/`)
+    return (queryKey) => keys.has(queryKey)
+  }
+
+  return {
+    key,
+    matcher,
+    fetcher,
+
+    /**
+     * Like useQuery, but takes params instead of key and fetcher; if params is null, fetcher not called.
+     */
+    useQuery: <K extends StateKey[] = [], S extends {} = D>(
+      params: P | null,
+      options: UseQueryOptions<K, D, S> = {},
+    ) => {
+      return useQuery<K, D, S>(
+        params === null ? null : key(params),
+        params === null ? null : (signal) => fetcher(params, signal) as Promise<QueryResponse<D>>,
+        { ...defaultOptions, ...options },
+      )
+    },
+
+    /**
+     * Like useQueryState, but takes params instead of key.
+     */
+    useQueryState: <K extends StateKey[] = [], S extends {} = D>(
+      params: P | null,
+      options: QueryStateOptions<K, D, S> = {},
+    ) => {
+      const { schema, cacheTimeMs, cacheMaxEntries } = defaultOptions
+      return useQueryState<K, D, S>(params === null ? null : key(params), {
+        schema,
+        cacheTimeMs,
+        cacheMaxEntries,
+        ...options,
+      })
+    },
+
+    /**
+     * Like query, but takes params instead of key and fetcher.
+     */
+    query: (params: P, options: QueryOptions<D> & { dispatch: Dispatch; signal?: AbortSignal }) => {
+      return query(key(params), (signal) => fetcher(params, signal), {
+        ...(defaultOptions as QueryOptions<any>),
+        ...(options as QueryOptions<any>),
+        dispatch: options.dispatch,
+      })
+    },
+
+    /**
+     * Creates save action for key.
+     */
+    save: (params: P, data: D): Action => save({ key: key(params), data }),
+
+    /**
+     * Creates update action for key.
+     */
+    update: (params: P, updater: (data: D | undefined) => D | undefined | null): Action => {
+      return update<D>({ key: key(params), updater })
+    },
+
+    /**
+     * Invalidates key for params, or all keys for definition if params is undefined.
+     */
+    invalidate: (params: P | undefined, options: { dispatch: Dispatch }) => invalidateQueries(matcher(params), options),
+  }
+}
@@ -0,0 +1,138 @@
+import { ChangeEvent, createElement as h, CSSProperties, useContext, useEffect, useState } from 'react'
+import { useSelector } from 'react-redux'
+
+import { save, update } from './actions'
+import { getSubscriberCount } from './cache'
+import { selectQueryBranch } from './namespace'
+import { ConfigContext, invalidateQueries, QueryState, useQueryDispatch } from './query'
+import { getActiveQueryCount, refetchQueries } from './registry'
+
+export interface QueryDevtoolsProps {
+  filter?: string
+  refreshMs?: number
+  style?: CSSProperties
+}
+
+const rowStyle: CSSProperties = { borderBottom: '1px solid #ddd', padding: '4px 0' }
+const preStyle: CSSProperties = { margin: '4px 0', maxHeight: 300, overflow: 'auto', whiteSpace: 'pre-wrap' }
+
+function formatMs(ms: number | undefined) {
+  return typeof ms === 'number' ? new Date(ms).toLocaleString() : '-'
+}
+
+function stringify(value: unknown) {
+  return JSON.stringify(value, null, 2) ?? 'undefined'
+}
+
+function QueryDevtoolsEntry(props: { queryKey: string; queryState: QueryState }) {
+  const { queryKey: key, queryState } = props
+  const dispatch = useQueryDispatch()
+  const [expanded, setExpanded] = useState(false)
+  const [draft, setDraft] = useState<string>()
+  const [draftError, setDraftError] = useState<string>()
+
+  const saveDraft = () => {
+    try {
+      dispatch(save({ key, data: JSON.parse(draft || '') }))
+      setDraft(undefined)
+      setDraftError(undefined)
+    } catch (e) {
+      setDraftError(String(e))
+    }
+  }
+
+  const button = (label: string, onClick: () => void, disabled = false) => {
+    return h('button', { onClick, disabled, style: { marginLeft: 4 } }, label)
+  }
+  // Refetch only reaches mounted useQuery hooks, so it's disabled if key has none
+  const subscribers = getSubscriberCount(dispatch, key)
+  const refetchable = subscribers > 0 && getActiveQueryCount(dispatch, key) > 0
+
+  return h(
+    'div',
+    { style: rowStyle },
+    h(
+      'div',
+      null,
+      h('strong', { onClick: () => setExpanded(!expanded), style: { cursor: 'pointer' } }, key),
+      button('Refetch', () => refetchQueries(dispatch, key), !refetchable),
+      button('Invalidate', () => invalidateQueries(key, { dispatch })),
+      button('Edit', () => setDraft(stringify(queryState.data))),
+      button('Delete', () => dispatch(update({ key, updater: () => null }))),
+    ),
+    h(
+      'div',
+      null,
+      `dataMs: ${formatMs(queryState.dataMs)} | errorMs: ${formatMs(queryState.errorMs)} | inFlight: ${
+        queryState.inFlight?.length || 0
+      } | subscribers: ${subscribers}${queryState.invalidated ? ' | invalidated' : ''}`,
+    ),
+    queryState.error !== undefined && h('pre', { style: { ...preStyle, color: '#c00' } }, stringify(queryState.error)),
+    expanded && draft === undefined && h('pre', { style: preStyle }, stringify(queryState.data)),
+    draft !== undefined &&
+      h(
+        'div',
+        null,
+        h('textarea', {
+          value: draft,
+          onChange: (e: ChangeEvent<HTMLTextAreaElement>) => setDraft(e.target.value),
+          rows: 10,
+          style: { display: 'block', width: '100%', fontFamily: 'inherit' },
+        }),
+        button('Save', saveDraft),
+        button('Cancel', () => {
+          setDraft(undefined)
+          setDraftError(undefined)
+        }),
+        draftError && h('span', { style: { color: '#c00', marginLeft: 4 } }, draftError),
+      ),
+  )
+}
+
+/**
+ * Component lists query states in query branch, with data, timestamps, error, number of in-flight requests and number
+ * of subscribers, and lets you filter keys, refetch, invalidate, edit or delete data at key. Render it anywhere inside
+ * Provider, e.g. only in development.
+ *
+ * - Refetch refetches data for mounted useQuery hooks with key, and is disabled if there are none
+ * - Invalidate invalidates key with invalidateQueries
+ * - Edit saves edited JSON at key with save action
+ * - Delete removes query state at key with update action whose updater returns null
+ *
+ * @param props - Props object
+ * @param props.filter - Initial filter; only keys that contain filter are listed
+ * @param props.refreshMs - Rerender every this many ms, so number of subscribers stays up to date (1000 by default)
+ * @param props.style - Style of container element
+ */
+export function QueryDevtools(props: QueryDevtoolsProps = {}) {
+  const config = useContext(ConfigContext)
+  const branch = useSelector((state) => selectQueryBranch(state, config))
+  const [filter, setFilter] = useState(props.filter || '')
+
+  // Subscriber counts change without Redux state changing, so rerender on interval to show them
+  const { refreshMs = 1000 } = props
+  const [, setRefreshId] = useState(0)
+  useEffect(() => {
+    const intervalId = setInterval(() => setRefreshId((id) => id + 1), refreshMs)
+    return () => clearInterval(intervalId)
+  }, [refreshMs])
+
+  const allKeys = Object.keys(branch)
+  const keys = allKeys.filter((key) => key.includes(filter)).sort()
+
+  return h(
+    'div',
+    { style: { fontFamily: 'monospace', fontSize: 12, ...props.style } },
+    h('input', {
+      placeholder: 'Filter keys',
+      value: filter,
+      onChange: (e: ChangeEvent<HTMLInputElement>) => setFilter(e.target.value),
+      style: { width: '100%', boxSizing: 'border-box' },
+    }),
+    h('div', { style: rowStyle }, `${keys.length} of ${allKeys.length} keys`),
+    ...keys.map((key) => {
+      const queryState = branch[key]
+      return queryState && h(QueryDevtoolsEntry, { key, queryKey: key, queryState })
+    }),
+  )
+}
@@ -0,0 +1,98 @@
+export type AppEvent = 'focus' | 'reconnect' | 'visible'
+
+/**
+ * Source of app events that can trigger refetches: window gets focus, network reconnects, or page becomes visible. Pass
+ * custom event source to ConfigContext, e.g. a fake one in tests, or one for React Native.
+ */
+export interface EventSource {
+  subscribe: (event: AppEvent, listener: () => void) => () => void
+  isVisible: () => boolean
+  isOnline: () => boolean
+}
+
+let windowEventSource: EventSource | undefined
+
+/**
+ * Gets event source backed by window and document events. Outside of browser, e.g. on server, events never fire, and
+ * page is always visible and online.
+ *
+ * @returns Event source
+ */
+export function getWindowEventSource(): EventSource {
+  if (windowEventSource) return windowEventSource
+
+  const hasWindow = typeof window !== 'undefined' && typeof document !== 'undefined'
+  const isVisible = () => !hasWindow || document.visibilityState !== 'hidden'
+
+  windowEventSource = {
+    subscribe: (event, listener) => {
+      if (!hasWindow) return () => {}
+      if (event === 'visible') {
+        const onVisibilityChange = () => {
+          if (isVisible()) listener()
+        }
+        document.addEventListener('visibilitychange', onVisibilityChange)
+        return () => document.removeEventListener('visibilitychange', onVisibilityChange)
+      }
+
+      const type = event === 'focus' ? 'focus' : 'online'
+      window.addEventListener(type, listener)
+      return () => window.removeEventListener(type, listener)
+    },
+    isVisible,
+    isOnline: () => !hasWindow || navigator.onLine !== false,
+  }
+  return windowEventSource
+}
+
+/**
+ * Creates event source whose events are emitted manually, e.g. for tests.
+ *
+ * @param options - Options object
+ * @param options.visible - If page is initially visible (true by default)
+ * @param options.online - If network is initially online (true by default)
+ *
+ * @returns Event source, with emit function that calls listeners for event, and setVisible and setOnline functions,
+ *  which also emit visible and reconnect events
+ */
+export function createFakeEventSource(options: { visible?: boolean; online?: boolean } = {}) {
+  let { visible = true, online = true } = options
+  const listeners: { [event in AppEvent]: Set<() => void> } = {
+    focus: new Set(),
+    reconnect: new Set(),
+    visible: new Set(),
+  }
+
+  const emit = (event: AppEvent) => {
+    // Copy listeners, so listener that unsubscribes itself doesn't affect iteration
+    const eventListeners: (() => void)[] = []
+    listeners[event].forEach((listener) => eventListeners.push(listener))
+    for (const listener of eventListeners) listener()
+  }
+
+  const eventSource: EventSource = {
+    subscribe: (event, listener) => {
+      listeners[event].add(listener)
+      return () => {
+        listeners[event].delete(listener)
+      }
+    },
+    isVisible: () => visible,
+    isOnline: () => online,
+  }
+
+  return {
+    ...eventSource,
+    emit,
+    setVisible: (value: boolean) => {
+      const wasVisible = visible
+      visible = value
+      if (visible && !wasVisible) emit('visible')
+    },
+    setOnline: (value: boolean) => {
+      const wasOnline = online
+      online = value
+      if (online && !wasOnline) emit('reconnect')
+    },
+  }
+}
@@ -0,0 +1,74 @@
+import { QueryBranch, QueryState } from './query'
+
+/**
+ * Serializable query state. goodFetchMonoMs is converted to goodFetchMs, a timestamp, because monotonic time is only
+ * meaningful within the process that measured it.
+ */
+export type DehydratedQueryState<D extends {} = any> = Omit<
+  QueryState<D>,
+  'inFlight' | 'goodFetchMonoMs' | 'nextRetryMs' | 'connection'
+> & { goodFetchMs?: number }
+
+export interface DehydratedState<D extends {} = any> {
+  [key: string]: DehydratedQueryState<D> | undefined
+}
+
+export interface DehydrateOptions {
+  includeErrors?: boolean
+  filter?: (key: string, queryState: QueryState) => boolean
+}
+
+/**
+ * Converts query branch to serializable object, e.g. to send query branch rendered on server to client. In-flight
+ * requests, pending retries and connection states of subscriptions are dropped, because they can't be resumed in another
+ * process.
+ *
+ * @param branch - Query branch
+ * @param options - Options object
+ * @param options.includeErrors - If true, keep error and errorMs properties (false by default)
+ * @param options.filter - If passed, only keys for which this function returns true are included
+ *
+ * @returns Dehydrated query branch, which can be passed to hydrate action
+ */
+export function dehydrate(branch: QueryBranch, options: DehydrateOptions = {}): DehydratedState {
+  const { includeErrors = false, filter } = options
+  const dehydrated: DehydratedState = {}
+  const monoOffsetMs = Date.now() - performance.now()
+
+  for (const key of Object.keys(branch)) {
+    const queryState = branch[key]
+    if (!queryState || (filter && !filter(key, queryState))) continue
+
+    const { inFlight, goodFetchMonoMs, nextRetryMs, connection, error, errorMs, ...rest } = queryState
+    const dehydratedState: DehydratedQueryState = includeErrors ? { ...rest, error, errorMs } : rest
+    if (goodFetchMonoMs !== undefined) dehydratedState.goodFetchMs = Math.round(goodFetchMonoMs + monoOffsetMs)
+    dehydrated[key] = dehydratedState
+  }
+
+  return dehydrated
+}
+
+/**
+ * Converts dehydrated query states back to query states, converting goodFetchMs to monotonic time in this process.
+ *
+ * @param dehydrated - Dehydrated query branch
+ *
+ * @returns Query branch
+ */
+export function rehydrate(dehydrated: DehydratedState): QueryBranch {
+  const branch: QueryBranch = {}
+  const monoOffsetMs = Date.now() - performance.now()
+
+  for (const key of Object.keys(dehydrated)) {
+    const dehydratedState = dehydrated[key]
+    if (!dehydratedState) continue
+
+    const { goodFetchMs, ...queryState } = dehydratedState
+    branch[key] =
+      goodFetchMs === undefined
+        ? queryState
+        : { ...queryState, goodFetchMonoMs: Math.round(goodFetchMs - monoOffsetMs) }
+  }
+
+  return branch
+}
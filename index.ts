@@ -1,3 +1,26 @@
 export * from './actions'
+export * from './batching'
+export * from './cache'
+export * from './definition'
+export * from './devtools'
+export * from './events'
+export * from './hydration'
+export * from './infinite'
+export * from './keys'
+export * from './lifecycle'
+export * from './middleware'
+export * from './mutation'
+export * from './namespace'
+export * from './normalize'
+export * from './offline'
+export * from './optimistic'
+export * from './persist'
+export * from './prefetch'
+export * from './queries'
 export * from './query'
 export { default as reducer } from './reducer'
+export * from './registry'
+export * from './retry'
+export * from './share'
+export * from './status'
+export * from './subscription'
@@ -0,0 +1,282 @@
+import { useCallback, useContext, useEffect, useRef, useState } from 'react'
+import { Dispatch } from 'redux'
+
+import { combineEventListeners } from './lifecycle'
+import {
+  ConfigContext,
+  query,
+  QueryOptions,
+  QueryResponse,
+  QueryStateOptions,
+  StateKey,
+  useQueryDispatch,
+  useQueryState,
+} from './query'
+import { registerQuery } from './registry'
+
+export interface InfiniteData<D extends {} = any, P = any> {
+  pages: D[]
+  pageParams: P[]
+}
+
+export type InfiniteDirection = 'next' | 'previous' | 'refresh'
+
+export interface InfiniteQueryOptions<D extends {}, P>
+  extends Omit<QueryOptions<InfiniteData<D, P>>, 'updater' | 'schema'> {
+  initialPageParam?: P
+  getNextPageParam?: (lastPage: D, pages: D[], pageParams: P[]) => P | undefined
+  getPreviousPageParam?: (firstPage: D, pages: D[], pageParams: P[]) => P | undefined
+}
+
+type PageData<R> = R extends { queryData: null | undefined | infer D } ? D : NonNullable<R>
+
+/**
+ * Computes next page param from pages in data.
+ *
+ * @param data - Pages and page params at key
+ * @param options - Options with getNextPageParam function
+ *
+ * @returns Next page param, or undefined if there's no next page
+ */
+export function getNextPageParam<D extends {}, P>(
+  data: InfiniteData<D, P> | undefined,
+  options: Pick<InfiniteQueryOptions<D, P>, 'getNextPageParam'>,
+) {
+  if (!data?.pages.length || !options.getNextPageParam) return
+  return options.getNextPageParam(data.pages[data.pages.length - 1], data.pages, data.pageParams)
+}
+
+/**
+ * Computes previous page param from pages in data.
+ *
+ * @param data - Pages and page params at key
+ * @param options - Options with getPreviousPageParam function
+ *
+ * @returns Previous page param, or undefined if there's no previous page
+ */
+export function getPreviousPageParam<D extends {}, P>(
+  data: InfiniteData<D, P> | undefined,
+  options: Pick<InfiniteQueryOptions<D, P>, 'getPreviousPageParam'>,
+) {
+  if (!data?.pages.length || !options.getPreviousPageParam) return
+  return options.getPreviousPageParam(data.pages[0], data.pages, data.pageParams)
+}
+
+/**
+ * Merges fetched pages into pages at key, depending on direction in which they were fetched.
+ *
+ * @param data - Pages and page params at key
+ * @param newData - Fetched pages and page params
+ * @param direction - Next pages are appended, previous pages are prepended, and refreshed pages replace all pages
+ *
+ * @returns Merged pages and page params
+ */
+export function mergePages<D extends {}, P>(
+  data: InfiniteData<D, P> | undefined,
+  newData: InfiniteData<D, P>,
+  direction: InfiniteDirection,
+): InfiniteData<D, P> {
+  if (!data || direction === 'refresh') return newData
+  if (direction === 'next') {
+    return { pages: [...data.pages, ...newData.pages], pageParams: [...data.pageParams, ...newData.pageParams] }
+  }
+  return { pages: [...newData.pages, ...data.pages], pageParams: [...newData.pageParams, ...data.pageParams] }
+}
+
+/**
+ * Like query, but stores ordered list of pages and page params at key. Fetcher receives page param, and returns one
+ * page; what is saved as page depends on response.queryData, like in query.
+ *
+ * - If direction is next, fetches page after last page, and appends it
+ * - If direction is previous, fetches page before first page, and prepends it
+ * - If direction is refresh, or there's no data at key, refetches all loaded pages in order, or first page if there
+ *   are none, and replaces pages
+ *
+ * Every page is saved at same key, so next and previous pages are never deduped, even if dedupe is true; otherwise a
+ * page requested soon after another one would be dropped.
+ *
+ * @param key - Key in query branch at which to store pages
+ * @param fetcher - Function that receives page param and AbortSignal, and returns response with optional queryData
+ *  property
+ * @param options - Options object
+ * @param options.dispatch - Dispatch function to send data to store (required)
+ * @param options.data - Pages and page params currently at key (required to fetch next or previous page, or to refresh
+ *  loaded pages)
+ * @param options.direction - Which page(s) to fetch ('refresh' by default)
+ * @param options.initialPageParam - Param for first page
+ * @param options.getNextPageParam - Function that receives last page, all pages and all page params, and returns next
+ *  page param, or undefined if there's no next page
+ * @param options.getPreviousPageParam - Function that receives first page, all pages and all page params, and returns
+ *  previous page param, or undefined if there's no previous page
+ *
+ * @returns Response for last fetched page, or undefined if there's no page in direction, or undefined if fetcher call
+ *  gets deduped, or undefined if fetcher throws error, or undefined if request is aborted
+ */
+export async function queryInfinite<R extends QueryResponse<{}>, P = any>(
+  key: string,
+  fetcher: (pageParam: P, signal: AbortSignal) => Promise<R>,
+  options: InfiniteQueryOptions<PageData<R>, P> & {
+    dispatch: Dispatch
+    signal?: AbortSignal
+    data?: InfiniteData<PageData<R>, P>
+    direction?: InfiniteDirection
+  },
+) {
+  const { data, initialPageParam, getNextPageParam: _, getPreviousPageParam: __, ...rest } = options
+  let direction = options.direction || 'refresh'
+  if (!data?.pages.length) direction = 'refresh'
+
+  let pageParams: P[] = []
+  if (direction === 'refresh') {
+    pageParams = data?.pages.length ? data.pageParams : [initialPageParam as P]
+  } else {
+    const pageParam = direction === 'next' ? getNextPageParam(data, options) : getPreviousPageParam(data, options)
+    if (pageParam === undefined) return
+    pageParams = [pageParam]
+  }
+
+  let lastResponse: R | undefined
+  const response = await query(
+    key,
+    async (signal): Promise<{ queryData: InfiniteData<PageData<R>, P> | null } | null> => {
+      const pages: PageData<R>[] = []
+      // Pages are fetched in order, so fetcher can rely on previous pages having been fetched
+      for (const pageParam of pageParams) {
+        const response = await fetcher(pageParam, signal)
+        lastResponse = response
+        if (response?.hasOwnProperty('queryData')) {
+          const { queryData } = response as { queryData?: PageData<R> | null }
+          // If response.queryData is set but is null or undefined, save response as error, and don't save any pages
+          if (queryData === null || queryData === undefined) return { ...(response as {}), queryData: null }
+          pages.push(queryData)
+        } else if (response !== null && response !== undefined) {
+          pages.push(response as PageData<R>)
+        } else {
+          return null
+        }
+      }
+      return { queryData: { pages, pageParams } }
+    },
+    {
+      ...rest,
+      dedupe: direction === 'refresh' && rest.dedupe,
+      updater: (data, newData) => mergePages(data, newData, direction),
+    },
+  )
+
+  return response === undefined ? undefined : lastResponse
+}
+
+/**
+ * Hook calls fetcher for first page and saves pages to query branch at key, like useQuery. Returns query state at key,
+ * plus functions to fetch next and previous pages, and to refetch all loaded pages in order.
+ *
+ * Pages are refetched if key or refetchKey changes, or if key is invalidated with invalidateQueries.
+ *
+ * @param key - Key in query branch at which to store pages; if null/undefined, fetcher not called
+ * @param fetcher - Function that receives page param and AbortSignal, and returns response with optional queryData
+ *  property; if null/undefined, fetcher not called
+ * @param options - Options object
+ * @param options.initialPageParam - Param for first page
+ * @param options.getNextPageParam - Function that receives last page, all pages and all page params, and returns next
+ *  page param, or undefined if there's no next page
+ * @param options.getPreviousPageParam - Function that receives first page, all pages and all page params, and returns
+ *  previous page param, or undefined if there's no previous page
+ * @param options.refetchKey - Pass in new value to force refetch of all loaded pages without changing key
+ * @param options.stateKeys - Additional keys in query state, or status keys, e.g. isLoading, to include in return value
+ *  (only data and dataMs included by default)
+ * @param options.compare - Equality function compares previous query state with next query state; if it returns false,
+ *  component rerenders, else it doesn't; uses shallowEqual by default
+ *
+ * @returns Query state at key, with subset of properties specified by stateKeys, plus hasNextPage, hasPreviousPage,
+ *  isFetchingNextPage, isFetchingPreviousPage, fetchNextPage, fetchPreviousPage and refresh
+ */
+export function useInfiniteQuery<K extends StateKey[] = [], D extends {} = any, P = any>(
+  key: string | null | undefined,
+  fetcher: ((pageParam: P, signal: AbortSignal) => Promise<QueryResponse<D>>) | null | undefined,
+  options: InfiniteQueryOptions<D, P> &
+    Omit<QueryStateOptions<K, InfiniteData<D, P>>, 'schema' | 'select'> & { refetchKey?: any } = {},
+) {
+  const { stateKeys, compare, refetchKey, ...rest } = options
+  const config = useContext(ConfigContext)
+  const dispatch = useQueryDispatch()
+
+  const queryState = useQueryState<K, InfiniteData<D, P>>(key, {
+    stateKeys,
+    compare,
+    cacheTimeMs: rest.cacheTimeMs,
+    cacheMaxEntries: rest.cacheMaxEntries,
+    staleTimeMs: rest.staleTimeMs,
+  })
+  const [fetching, setFetching] = useState({ next: false, previous: false })
+
+  // Fetch functions stay the same between renders, but always use latest data, fetcher and options
+  const latestRef = useRef({ data: queryState.data, fetcher, options: rest, config })
+  latestRef.current = { data: queryState.data, fetcher, options: rest, config }
+  const fetchingRef = useRef({ next: false, previous: false })
+  const abortControllerRef = useRef<AbortController>()
+
+  const fetchPages = useCallback(
+    async (direction: InfiniteDirection) => {
+      const { data, fetcher, options, config } = latestRef.current
+      if (key === null || key === undefined || !fetcher) return
+      // Don't fetch same page twice
+      if (direction !== 'refresh' && fetchingRef.current[direction]) return
+
+      const abortController = abortControllerRef.current
+      if (direction !== 'refresh') {
+        fetchingRef.current[direction] = true
+        setFetching({ ...fetchingRef.current })
+      }
+      try {
+        return await queryInfinite(key, fetcher, {
+          ...config,
+          ...(options as InfiniteQueryOptions<any, P>),
+          onEvent: combineEventListeners(config.onEvent, options.onEvent),
+          dispatch,
+          data,
+          direction,
+          signal: abortController?.signal,
+        })
+      } finally {
+        if (direction !== 'refresh' && !abortController?.signal.aborted) {
+          fetchingRef.current[direction] = false
+          setFetching({ ...fetchingRef.current })
+        }
+      }
+    },
+    [key, dispatch],
+  )
+
+  useEffect(() => {
+    const abortController = new AbortController()
+    abortControllerRef.current = abortController
+    fetchingRef.current = { next: false, previous: false }
+    setFetching({ ...fetchingRef.current })
+
+    fetchPages('refresh')
+    if (key === null || key === undefined) return () => abortController.abort()
+    // Register hook so invalidateQueries can force it to refetch loaded pages
+    const unregister = registerQuery(dispatch, key, () => fetchPages('refresh'))
+
+    return () => {
+      unregister()
+      abortController.abort()
+    }
+  }, [key, dispatch, refetchKey]) // eslint-disable-line
+
+  const fetchNextPage = useCallback(() => fetchPages('next'), [fetchPages])
+  const fetchPreviousPage = useCallback(() => fetchPages('previous'), [fetchPages])
+  const refresh = useCallback(() => fetchPages('refresh'), [fetchPages])
+
+  return {
+    ...queryState,
+    hasNextPage: getNextPageParam(queryState.data, rest) !== undefined,
+    hasPreviousPage: getPreviousPageParam(queryState.data, rest) !== undefined,
+    isFetchingNextPage: fetching.next,
+    isFetchingPreviousPage: fetching.previous,
+    fetchNextPage,
+    fetchPreviousPage,
+    refresh,
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Matches keys in query branch: a string matches key exactly, an object with prefix property matches keys that start
+ * with prefix, and a function matches keys for which it returns true.
+ */
+export type KeyMatcher = string | { prefix: string } | ((key: string) => boolean)
+
+/**
+ * Checks if key is matched by matcher.
+ *
+ * @param matcher - Key, object with key prefix, or predicate function
+ * @param key - Key in query branch
+ *
+ * @returns True if key matches
+ */
+export function matchKey(matcher: KeyMatcher, key: string) {
+  if (typeof matcher === 'string') return key === matcher
+  if (typeof matcher === 'function') return matcher(key)
+  return key.startsWith(matcher.prefix)
+}
+
+/**
+ * Serializes value to JSON, with object keys in sorted order, so objects with same properties always produce same
+ * string. Like JSON.stringify, omits undefined object properties, and serializes undefined array items as null.
+ *
+ * @param value - Value to serialize
+ *
+ * @returns JSON string
+ */
+export function stableStringify(value: unknown): string {
+  if (value && typeof (value as { toJSON?: unknown }).toJSON === 'function') value = (value as Date).toJSON()
+
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => (item === undefined ? 'null' : stableStringify(item))).join(',')}]`
+  }
+  if (value && typeof value === 'object') {
+    const object = value as { [key: string]: unknown }
+    const entries = Object.keys(object)
+      .sort()
+      .filter((key) => object[key] !== undefined && typeof object[key] !== 'function')
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(object[key])}`)
+    return `{${entries.join(',')}}`
+  }
+  return JSON.stringify(value) ?? 'null'
+}
+
+/**
+ * Creates key from name and params. Strings and numbers are appended to name as is, and other params are appended with
+ * stableStringify, e.g. 'user/42', or 'users/{"page":2,"sort":"name"}'.
+ *
+ * @param name - Name of key
+ * @param params - Params; if undefined, key is name
+ *
+ * @returns Key in query branch
+ */
+export function createKey(name: string, params?: unknown) {
+  if (params === undefined) return name
+  return `${name}/${typeof params === 'string' || typeof params === 'number' ? params : stableStringify(params)}`
+}
@@ -0,0 +1,51 @@
+interface BaseQueryEvent {
+  key: string
+  requestId: string
+  durationMs: number
+}
+
+/**
+ * Lifecycle event emitted by query. durationMs is time since request was sent, and requestId is id of request in
+ * inFlight array; deduped event has id of request that deduped it, and durationMs since that request was sent.
+ *
+ * - started: fetcher is about to be called
+ * - deduped: fetcher isn't called, because another request was recently sent for key
+ * - retried: fetcher threw error, and will be called again after delayMs
+ * - succeeded: response was saved, or response was null or undefined
+ * - failed: fetcher threw error, or response.queryData was null or undefined
+ * - stale-response-dropped: response wasn't saved, because a request sent later already saved its response
+ * - cancelled: request was aborted, and its response or error was ignored
+ */
+export type QueryEvent = BaseQueryEvent &
+  (
+    | { type: 'started' }
+    | { type: 'deduped' }
+    | { type: 'retried'; error: {}; retryCount: number; delayMs: number }
+    | { type: 'succeeded'; response: unknown }
+    | { type: 'failed'; error: {} }
+    | { type: 'stale-response-dropped'; response: unknown }
+    | { type: 'cancelled' }
+  )
+
+export type QueryEventType = QueryEvent['type']
+
+export interface LifecycleOptions<D> {
+  onSuccess?: (data: D | undefined, response: unknown) => void
+  onError?: (error: {}) => void
+  onSettled?: (data: D | undefined, error: {} | undefined) => void
+  onEvent?: (event: QueryEvent) => void
+}
+
+/**
+ * Combines onEvent listeners, e.g. listener in ConfigContext and listener passed to hook, into one listener that calls
+ * each of them.
+ *
+ * @param listeners - onEvent listeners; undefined listeners are skipped
+ *
+ * @returns Listener that calls every listener, or undefined if no listener is passed
+ */
+export function combineEventListeners(...listeners: (LifecycleOptions<any>['onEvent'] | undefined)[]) {
+  const defined = listeners.filter((listener): listener is (event: QueryEvent) => void => Boolean(listener))
+  if (defined.length <= 1) return defined[0]
+  return (event: QueryEvent) => defined.forEach((listener) => listener(event))
+}
@@ -0,0 +1,83 @@
+import { AnyAction, Dispatch, Middleware } from 'redux'
+
+import { FetchQuery, Hydrate, Save } from './actions'
+import { trackKeys } from './cache'
+import { getNamespacedDispatch, namespaceAction } from './namespace'
+import { query, QueryOptions, QueryResponse } from './query'
+import { createScope, GET_SCOPE, registerScope } from './scope'
+
+export interface Fetchers {
+  [id: string]: (args: any, signal: AbortSignal) => Promise<QueryResponse<{}>>
+}
+
+export interface QueryMiddlewareOptions extends Omit<QueryOptions<any>, 'updater'> {
+  fetchers?: Fetchers
+  namespace?: string
+}
+
+/**
+ * Creates Redux middleware that handles fetchQuery actions, so queries can be triggered by plain, serializable actions,
+ * e.g. from sagas or other middleware, or replayed in Redux DevTools. fetchQuery actions are passed on to reducers
+ * before query is called, so they show up in action log.
+ *
+ * Middleware also owns runtime state of RRQ for its store, e.g. in-flight requests, which means this state is scoped
+ * per store even if dispatch functions other than store's dispatch function are passed to RRQ functions. Put it first
+ * in applyMiddleware, so RRQ functions find this state without dispatching an action to ask for it. Keys written
+ * by save, update and hydrate actions are tracked for cache eviction, so they're evicted after cacheTimeMs even if no
+ * hook ever subscribes to them.
+ *
+ * @param options - Options object
+ * @param options.fetchers - Object that maps fetcher ids to fetchers; fetcher receives args from action, and
+ *  AbortSignal, and returns response with optional queryData property
+ * @param options.namespace - If passed, middleware only handles actions in this namespace, and queries dispatch
+ *  actions in this namespace; one store can have middleware for each namespace
+ * @param options.cacheTimeMs - Evict query state at keys written by save, update and hydrate actions this many ms after
+ *  they're written, unless they have subscribers (never evicted by default); also default for fetchQuery actions
+ * @param options.cacheMaxEntries - Max number of keys to keep in query branch (no max by default)
+ * @param options.retry - Other query options, e.g. retry, are defaults for fetchQuery actions; options in action take
+ *  precedence
+ *
+ * @returns Redux middleware
+ */
+export function createQueryMiddleware(options: QueryMiddlewareOptions = {}): Middleware {
+  const { fetchers = {}, namespace, ...defaults } = options
+  const getScopeType = namespaceAction({ type: GET_SCOPE }, namespace).type
+  const fetchType = namespaceAction({ type: 'REACT_REDUX_QUERY_FETCH' }, namespace).type
+  const writeTypes = ['REACT_REDUX_QUERY_SAVE_DATA', 'REACT_REDUX_QUERY_UPDATE_DATA'].map(
+    (type) => namespaceAction({ type }, namespace).type,
+  )
+  const hydrateType = namespaceAction({ type: 'REACT_REDUX_QUERY_HYDRATE' }, namespace).type
+  const { cacheTimeMs, cacheMaxEntries } = defaults
+
+  return (api) => {
+    const scope = createScope()
+    const dispatch = getNamespacedDispatch(api.dispatch, namespace)
+    registerScope(dispatch, scope)
+
+    return (next: Dispatch<AnyAction>) => {
+      // If middleware comes first in applyMiddleware, this function is store's dispatch function
+      const handle = (action: AnyAction) => {
+        if (action.type === getScopeType) return scope
+        if (writeTypes.includes(action.type) || action.type === hydrateType) {
+          const result = next(action)
+          const keys =
+            action.type === hydrateType
+              ? Object.keys((action.payload as Hydrate).state)
+              : [(action.payload as Save).key]
+          trackKeys(dispatch, keys, { cacheTimeMs, cacheMaxEntries })
+          return result
+        }
+        if (action.type !== fetchType) return next(action)
+
+        const { key, fetcher: id, args, options } = action.payload as FetchQuery
+        const fetcher = fetchers[id]
+        if (!fetcher) throw new Error(`react-redux-query: no fetcher with id "${id}" passed to createQueryMiddleware`)
+
+        next(action)
+        return query(key, (signal) => fetcher(args, signal), { ...defaults, ...options, dispatch })
+      }
+      registerScope(getNamespacedDispatch(handle as Dispatch, namespace), scope)
+      return handle
+    }
+  }
+}
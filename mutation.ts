@@ -0,0 +1,167 @@
+import { useCallback, useContext, useRef } from 'react'
+import { Dispatch } from 'redux'
+
+import { combineEventListeners } from './lifecycle'
+import {
+  applyOptimisticUpdates,
+  commitOptimisticUpdates,
+  OptimisticUpdate,
+  rollbackOptimisticUpdates,
+} from './optimistic'
+import {
+  ConfigContext,
+  query,
+  QueryOptions,
+  QueryResponse,
+  QueryStateOptions,
+  StateKey,
+  useQueryDispatch,
+  useQueryState,
+} from './query'
+
+type ResponseData<R> = R extends { queryData: null | undefined | infer D } ? D : NonNullable<R>
+
+export interface MutationOptions<D> extends Omit<QueryOptions<D>, 'dedupe' | 'dedupeMs' | 'abortPrevious'> {
+  optimisticUpdates?: OptimisticUpdate[]
+}
+
+/**
+ * Applies optimistic updates, then calls mutation fetcher and saves response to query branch at key, like query. Query
+ * state at key is mutation state, e.g. its error property is set if mutation fails.
+ *
+ * If fetcher throws error, or returns response whose queryData is null or undefined, optimistic updates are rolled back.
+ * They're also rolled back if request is aborted, e.g. with cancel, because server never confirmed mutation. Rolling
+ * back one mutation's updates doesn't discard updates of other mutations still pending at same keys.
+ *
+ * Mutations never abort each other, so abortPrevious isn't passed to query, even if it's set in ConfigContext.
+ *
+ * @param key - Key in query branch at which to store mutation state
+ * @param fetcher - Function that sends mutation request and returns response with optional queryData property
+ * @param options - Options object
+ * @param options.dispatch - Dispatch function to send data to store (required)
+ * @param options.optimisticUpdates - Array of objects with key in query branch, and updater function that receives data
+ *  at key and must return updated data, undefined, or null; updates are applied before fetcher is called
+ * @param options.updater - If passed, this function takes data currently at key, plus data in response, and returns
+ *  updated data to be saved at key
+ * @param options.schema - If passed, normalize response with this schema, so updated entities are reflected by every
+ *  query that references them
+ * @param options.catchError - If true, any error thrown by fetcher is caught and assigned to queryState.error property
+ *  (true by default)
+ *
+ * @returns Response, or undefined if fetcher throws error, or undefined if request is aborted
+ */
+export async function mutate<R extends QueryResponse<{}>>(
+  key: string,
+  fetcher: () => Promise<R>,
+  options: MutationOptions<ResponseData<R>> & { dispatch: Dispatch },
+) {
+  const { dispatch, optimisticUpdates = [], catchError = true, ...rest } = options
+
+  const id = applyOptimisticUpdates(dispatch, optimisticUpdates)
+
+  // query returns undefined if request is aborted, which can't be told apart from undefined response without event
+  let cancelled = false
+  const onEvent = combineEventListeners(rest.onEvent, (event) => {
+    if (event.type === 'cancelled') cancelled = true
+  })
+
+  let response: R | undefined
+  try {
+    response = await query(key, fetcher, {
+      ...rest,
+      dedupe: false,
+      abortPrevious: false,
+      catchError: false,
+      onEvent,
+      dispatch,
+    })
+  } catch (e) {
+    rollbackOptimisticUpdates(dispatch, id)
+    if (catchError) return
+    throw e
+  }
+
+  if (cancelled) {
+    rollbackOptimisticUpdates(dispatch, id)
+    return
+  }
+
+  const { queryData } = (response || {}) as { queryData?: {} | null }
+  if (response?.hasOwnProperty('queryData') && (queryData === null || queryData === undefined)) {
+    rollbackOptimisticUpdates(dispatch, id)
+  } else {
+    commitOptimisticUpdates(dispatch, id)
+  }
+
+  return response
+}
+
+/**
+ * Hook returns mutate function, which calls mutation fetcher with variables, plus mutation state at key. Mutation state
+ * includes only data and dataMs properties by default, unless additional stateKeys passed.
+ *
+ * @param key - Key in query branch at which to store mutation state
+ * @param fetcher - Function that receives variables, sends mutation request and returns response with optional queryData
+ *  property
+ * @param options - Options object
+ * @param options.optimisticUpdates - Function that receives variables and returns array of optimistic updates to apply
+ *  before fetcher is called
+ * @param options.updater - If passed, this function takes data currently at key, plus data in response, and returns
+ *  updated data to be saved at key
+ * @param options.schema - If passed, normalize response with this schema, so updated entities are reflected by every
+ *  query that references them
+ * @param options.catchError - If true, any error thrown by fetcher is caught and assigned to queryState.error property
+ *  (true by default)
+ * @param options.stateKeys - Additional keys in query state, or status keys, e.g. isLoading, to include in return value
+ *  (only data and dataMs included by default)
+ * @param options.compare - Equality function compares previous query state with next query state; if it returns false,
+ *  component rerenders, else it doesn't; uses shallowEqual by default
+ *
+ * @returns Mutation state at key, with subset of properties specified by stateKeys, and mutate function
+ */
+export function useMutation<V = void, K extends StateKey[] = [], R extends QueryResponse<{}> = any>(
+  key: string,
+  fetcher: (variables: V) => Promise<R>,
+  options: Omit<MutationOptions<ResponseData<R>>, 'optimisticUpdates'> &
+    Omit<QueryStateOptions<K, ResponseData<R>>, 'select'> & {
+      optimisticUpdates?: (variables: V) => OptimisticUpdate[]
+    } = {},
+) {
+  const { stateKeys, compare, ...rest } = options
+  const config = useContext(ConfigContext)
+  const dispatch = useQueryDispatch()
+
+  const mutationState = useQueryState<K, ResponseData<R>>(key, {
+    stateKeys,
+    compare,
+    cacheTimeMs: rest.cacheTimeMs,
+    cacheMaxEntries: rest.cacheMaxEntries,
+    schema: rest.schema,
+  })
+
+  // mutate function stays the same between renders, but always calls latest fetcher with latest options
+  const latestRef = useRef({ fetcher, options: rest, config })
+  latestRef.current = { fetcher, options: rest, config }
+
+  const mutateWithVariables = useCallback(
+    (variables: V) => {
+      const { fetcher, options, config } = latestRef.current
+      const { optimisticUpdates, updater, ...rest } = options
+      const { abortPrevious, ...mutationConfig } = config
+
+      // Mutations aren't retried unless retry is passed to hook, even if it's set in config
+      return mutate(key, () => fetcher(variables), {
+        ...mutationConfig,
+        retry: 0,
+        ...rest,
+        updater: updater as QueryOptions<any>['updater'],
+        onEvent: combineEventListeners(config.onEvent, rest.onEvent),
+        optimisticUpdates: optimisticUpdates?.(variables),
+        dispatch,
+      })
+    },
+    [key, dispatch],
+  )
+
+  return { ...mutationState, mutate: mutateWithVariables }
+}
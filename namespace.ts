@@ -0,0 +1,91 @@
+import { AnyAction, Dispatch } from 'redux'
+
+import { Action } from './actions'
+import { QueryBranch } from './query'
+import reduce from './reducer'
+
+export interface BranchConfig {
+  branchName?: string
+  getBranch?: (state: any) => QueryBranch | undefined
+  namespace?: string
+}
+
+const ACTION_TYPE_PREFIX = 'REACT_REDUX_QUERY_'
+
+const dispatchByNamespace = new WeakMap<Dispatch, Map<string, Dispatch>>()
+
+/**
+ * Namespaces type of RRQ action, e.g. REACT_REDUX_QUERY_SAVE_DATA becomes app/SAVE_DATA for app namespace. Other
+ * actions, and all actions if namespace isn't passed, are returned as is.
+ *
+ * @param action - Action object
+ * @param namespace - Namespace of query branch
+ *
+ * @returns Action object with namespaced type
+ */
+export function namespaceAction<A extends AnyAction>(action: A, namespace?: string): A {
+  const { type } = action
+  if (!namespace || typeof type !== 'string' || !type.startsWith(ACTION_TYPE_PREFIX)) return action
+  return { ...action, type: `${namespace}/${type.slice(ACTION_TYPE_PREFIX.length)}` }
+}
+
+/**
+ * Gets dispatch function that namespaces RRQ actions before dispatching them. Namespaced dispatch function is the same
+ * for the same dispatch function and namespace, so RRQ runtime state, e.g. in-flight requests, is scoped per
+ * namespace.
+ *
+ * @param dispatch - Dispatch function of store
+ * @param namespace - Namespace of query branch; if it's not passed, dispatch is returned as is
+ *
+ * @returns Namespaced dispatch function
+ */
+export function getNamespacedDispatch(dispatch: Dispatch, namespace?: string): Dispatch {
+  if (!namespace) return dispatch
+
+  let byNamespace = dispatchByNamespace.get(dispatch)
+  if (!byNamespace) {
+    byNamespace = new Map()
+    dispatchByNamespace.set(dispatch, byNamespace)
+  }
+  let namespacedDispatch = byNamespace.get(namespace)
+  if (!namespacedDispatch) {
+    namespacedDispatch = ((action: AnyAction) => dispatch(namespaceAction(action, namespace))) as Dispatch
+    byNamespace.set(namespace, namespacedDispatch)
+  }
+  return namespacedDispatch
+}
+
+/**
+ * Selects query branch from Redux state, with getBranch if it's passed, else at branchName.
+ *
+ * @param state - Redux state
+ * @param config - Object with getBranch and branchName properties, e.g. value of ConfigContext
+ *
+ * @returns Query branch, or empty object if there's no query branch
+ */
+export function selectQueryBranch(state: any, config: BranchConfig = {}): QueryBranch {
+  const { branchName = 'query', getBranch } = config
+  return (getBranch ? getBranch(state) : state[branchName]) || {}
+}
+
+/**
+ * Creates reducer for query branch. If namespace is passed, reducer only handles RRQ actions in this namespace, so one
+ * store can have several independent query branches, or several copies of RRQ, without their actions colliding.
+ *
+ * @param options - Options object
+ * @param options.namespace - Namespace of query branch; must match namespace in ConfigContext, and namespace passed to
+ *  getNamespacedDispatch and createQueryMiddleware (not namespaced by default)
+ *
+ * @returns Reducer for query branch
+ */
+export function createQueryReducer(options: { namespace?: string } = {}) {
+  const { namespace } = options
+  const prefix = `${namespace}/`
+
+  return (state: QueryBranch = {}, action: AnyAction): QueryBranch => {
+    if (!namespace) return reduce(state, action as Action)
+    const { type } = action
+    if (typeof type !== 'string' || !type.startsWith(prefix)) return state
+    return reduce(state, { ...action, type: `${ACTION_TYPE_PREFIX}${type.slice(prefix.length)}` } as Action)
+  }
+}
@@ -0,0 +1,198 @@
+/**
+ * Key in query branch at which normalized entities are stored. Data at this key maps entity type to entities by id.
+ */
+export const ENTITIES_KEY = '@@entities'
+
+export interface EntitySchema {
+  name: string
+  idAttribute: string
+  relations: { [field: string]: Schema }
+}
+
+export type Schema = EntitySchema | Schema[] | { [field: string]: Schema }
+
+export interface Entities {
+  [type: string]: { [id: string]: {} | undefined } | undefined
+}
+
+/**
+ * Data saved at key for normalized query; result is fetched data with entities replaced by their ids.
+ */
+export interface NormalizedData {
+  result: any
+}
+
+const entitySchemas = new WeakSet<{}>()
+
+/**
+ * Creates schema for entity type. Relations map fields of entity to schemas; they can be assigned after entity schema is
+ * created, e.g. for entities that reference each other.
+ *
+ * @param name - Entity type, e.g. 'users'
+ * @param relations - Object that maps fields to schemas of nested entities
+ * @param options - Options object
+ * @param options.idAttribute - Field with entity id ('id' by default)
+ *
+ * @returns Entity schema
+ */
+export function entity(
+  name: string,
+  relations: EntitySchema['relations'] = {},
+  options: { idAttribute?: string } = {},
+): EntitySchema {
+  const schema = { name, idAttribute: options.idAttribute || 'id', relations }
+  entitySchemas.add(schema)
+  return schema
+}
+
+function isEntitySchema(schema: Schema): schema is EntitySchema {
+  return entitySchemas.has(schema)
+}
+
+/**
+ * Replaces entities in data with their ids, and collects entities by type and id.
+ *
+ * @param data - Data, e.g. fetched data
+ * @param schema - Schema of data, e.g. entity schema, or array of entity schema
+ *
+ * @returns Normalized result, and entities in data
+ */
+export function normalize(data: any, schema: Schema) {
+  const entities: Entities = {}
+
+  const visit = (value: any, schema: Schema): any => {
+    if (value === null || value === undefined) return value
+
+    if (Array.isArray(schema)) {
+      return Array.isArray(value) ? value.map((item) => visit(item, schema[0])) : value
+    }
+
+    if (isEntitySchema(schema)) {
+      const id = value[schema.idAttribute]
+      const normalized = { ...value }
+      for (const field of Object.keys(schema.relations)) {
+        if (field in value) normalized[field] = visit(value[field], schema.relations[field])
+      }
+      const byId = entities[schema.name] || (entities[schema.name] = {})
+      byId[id] = { ...byId[id], ...normalized }
+      return id
+    }
+
+    const normalized = { ...value }
+    for (const field of Object.keys(schema)) {
+      if (field in value) normalized[field] = visit(value[field], schema[field])
+    }
+    return normalized
+  }
+
+  return { result: visit(data, schema), entities }
+}
+
+function denormalizeWithDeps(
+  result: any,
+  schema: Schema,
+  entities: Entities,
+  deps: [string, string, {} | undefined][],
+) {
+  // Denormalized entities are shared within one call, which also handles entities that reference each other
+  const visited: { [typeAndId: string]: {} } = {}
+
+  const visit = (value: any, schema: Schema): any => {
+    if (value === null || value === undefined) return value
+
+    if (Array.isArray(schema)) {
+      return Array.isArray(value) ? value.map((item) => visit(item, schema[0])) : value
+    }
+
+    if (isEntitySchema(schema)) {
+      const typeAndId = `${schema.name}:${value}`
+      if (visited[typeAndId]) return visited[typeAndId]
+
+      const entity = entities[schema.name]?.[value] as { [field: string]: any } | undefined
+      deps.push([schema.name, value, entity])
+      if (!entity) return undefined
+
+      const denormalized = { ...entity }
+      visited[typeAndId] = denormalized
+      for (const field of Object.keys(schema.relations)) {
+        if (field in entity) denormalized[field] = visit(entity[field], schema.relations[field])
+      }
+      return denormalized
+    }
+
+    const denormalized = { ...value }
+    for (const field of Object.keys(schema)) {
+      if (field in value) denormalized[field] = visit(value[field], schema[field])
+    }
+    return denormalized
+  }
+
+  return visit(result, schema)
+}
+
+/**
+ * Replaces ids in normalized result with entities.
+ *
+ * @param result - Normalized result
+ * @param schema - Schema used to normalize result
+ * @param entities - Entities by type and id
+ *
+ * @returns Denormalized data
+ */
+export function denormalize(result: any, schema: Schema, entities: Entities) {
+  return denormalizeWithDeps(result, schema, entities, [])
+}
+
+/**
+ * Creates memoized denormalize function. It returns previous denormalized data if result and schema are the same, and
+ * none of the entities it read have changed, so changes to unrelated entities don't produce new data.
+ *
+ * @returns Memoized denormalize function
+ */
+export function createDenormalizer() {
+  let last: { result: any; schema: Schema; deps: [string, string, {} | undefined][]; data: any } | undefined
+
+  return (result: any, schema: Schema, entities: Entities) => {
+    if (
+      last &&
+      last.result === result &&
+      last.schema === schema &&
+      last.deps.every(([type, id, entity]) => entities[type]?.[id] === entity)
+    ) {
+      return last.data
+    }
+
+    const deps: [string, string, {} | undefined][] = []
+    const data = denormalizeWithDeps(result, schema, entities, deps)
+    last = { result, schema, deps, data }
+    return data
+  }
+}
+
+/**
+ * Merges entities into existing entities. An entity keeps its reference if merging doesn't change any of its fields, and
+ * existing entities are returned as is if no entity changes.
+ *
+ * @param entities - Existing entities
+ * @param newEntities - Entities to merge
+ *
+ * @returns Merged entities
+ */
+export function mergeEntities(entities: Entities, newEntities: Entities): Entities {
+  let merged = entities
+
+  for (const type of Object.keys(newEntities)) {
+    const byId = newEntities[type] || {}
+    for (const id of Object.keys(byId)) {
+      const entity = merged[type]?.[id] as { [field: string]: any } | undefined
+      const newEntity = byId[id] as { [field: string]: any }
+      if (entity && Object.keys(newEntity).every((field) => entity[field] === newEntity[field])) continue
+
+      if (merged === entities) merged = { ...entities }
+      if (merged[type] === entities[type]) merged[type] = { ...entities[type] }
+      merged[type]![id] = { ...entity, ...newEntity }
+    }
+  }
+
+  return merged
+}
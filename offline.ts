@@ -0,0 +1,310 @@
+import { Dispatch } from 'redux'
+
+import { update, updateQueryState } from './actions'
+import { EventSource, getWindowEventSource } from './events'
+import { combineEventListeners } from './lifecycle'
+import { mutate, MutationOptions } from './mutation'
+import {
+  applyOptimisticUpdates,
+  commitOptimisticUpdates,
+  OptimisticUpdate,
+  rebaseOptimisticUpdates,
+  rollbackOptimisticUpdates,
+} from './optimistic'
+import { StorageAdapter } from './persist'
+import { QueryResponse } from './query'
+import { defaultRetryDelayMs } from './retry'
+import { getScope } from './scope'
+
+export interface QueuedMutationDefinition<V = any> extends Omit<MutationOptions<any>, 'optimisticUpdates'> {
+  key: string | ((variables: V) => string)
+  fetcher: (variables: V) => Promise<QueryResponse<{}>>
+  optimisticUpdates?: (variables: V) => OptimisticUpdate[]
+}
+
+export interface QueuedMutation<V = any> {
+  id: string
+  name: string
+  variables: V
+  queuedMs: number
+}
+
+export interface MutationQueueOptions {
+  dispatch: Dispatch
+  mutations: { [name: string]: QueuedMutationDefinition }
+  storage?: StorageAdapter
+  storageKey?: string
+  eventSource?: EventSource
+  isNetworkError?: (error: {}) => boolean
+  retryDelayMs?: (attempt: number) => number
+  isConflict?: (error: {}) => boolean
+  onConflict?: (mutation: QueuedMutation, error: {}) => void
+  onError?: (mutation: QueuedMutation | undefined, error: {}) => void
+  onSuccess?: (mutation: QueuedMutation, response: unknown) => void
+}
+
+// Bases are data at optimistically updated keys before pending updates were applied, so restoring queue can replace
+// persisted data that already has these updates applied, e.g. by persistQueryBranch
+interface PersistedQueue {
+  mutations: QueuedMutation[]
+  bases: { [key: string]: { data?: {} } }
+}
+
+/**
+ * Creates queue for mutations, so writes made while offline aren't lost. Queued mutations are shown optimistically,
+ * persisted with storage adapter, and sent in order while online, e.g. right away, or once network reconnects.
+ *
+ * Mutations are defined by name, because queued mutations must be serializable: queue persists name and variables of
+ * each mutation, and looks up its fetcher and optimistic updates by name, e.g. when mutations are restored from storage
+ * after reload.
+ *
+ * If mutation fails because network is offline, it stays at head of queue, and queue stops sending mutations until
+ * network reconnects. If it fails with network error while network is online, e.g. because server is down, or if its
+ * request is aborted, e.g. with cancel, it also stays at head of queue, and queue sends it again after retryDelayMs. If
+ * it fails for another reason, or returns response whose queryData is null or undefined, its
+ * optimistic updates are rolled back, it's removed from queue, and onConflict or onError is called.
+ *
+ * Queue also persists data at optimistically updated keys from before updates were applied. When queue is restored,
+ * this data is saved at these keys, and optimistic updates of restored mutations are applied to it, so updates aren't
+ * applied twice if query branch is persisted too, and rolling them back restores data from server.
+ *
+ * @param options - Options object
+ * @param options.dispatch - Dispatch function to send data to store (required)
+ * @param options.mutations - Object that maps mutation names to mutation definitions, with key in query branch at which
+ *  to store mutation state, or function that receives variables and returns key; fetcher, which receives variables and
+ *  sends mutation request; optimisticUpdates, function that receives variables and returns optimistic updates; and
+ *  other mutate options (required)
+ * @param options.storage - Storage adapter to persist queued mutations (not persisted by default)
+ * @param options.storageKey - Key at which to store queued mutations in storage ('react-redux-query-mutations' by
+ *  default)
+ * @param options.eventSource - Event source whose reconnect event triggers sending queued mutations (window and document
+ *  events by default)
+ * @param options.isNetworkError - Function that receives error thrown by fetcher, and returns true if mutation should
+ *  stay queued, even if network is online (true for TypeError, which fetch throws on network failure, by default)
+ * @param options.retryDelayMs - Function that receives retry attempt, starting from 1, and returns delay in ms before
+ *  mutation that stayed queued while network is online is sent again (defaultRetryDelayMs by default)
+ * @param options.isConflict - Function that receives error thrown by fetcher, and returns true if it's a conflict, e.g.
+ *  if error has 409 status code (false by default)
+ * @param options.onConflict - Called with mutation and error if mutation fails with conflict
+ * @param options.onError - Called with mutation and error if mutation fails for another reason, or with response if its
+ *  queryData is null or undefined; called with undefined mutation and error if storage throws error, in which case
+ *  queue keeps working without it
+ * @param options.onSuccess - Called with mutation and response after mutation is sent successfully
+ *
+ * @returns Object with mutate, which queues mutation by name with variables; getMutations, which returns queued
+ *  mutations; discard, which removes mutation from queue and rolls back its optimistic updates; replay, which sends
+ *  queued mutations; subscribe, which subscribes to changes in queued mutations; restored, promise that resolves after
+ *  queued mutations are restored from storage, or fail to be restored; and stop, which stops sending mutations on
+ *  reconnect, and cancels pending retry
+ */
+export function createMutationQueue(options: MutationQueueOptions) {
+  const {
+    dispatch,
+    mutations,
+    storage,
+    storageKey = 'react-redux-query-mutations',
+    eventSource = getWindowEventSource(),
+    isNetworkError = (error) => error instanceof TypeError,
+    retryDelayMs = defaultRetryDelayMs,
+    isConflict = () => false,
+    onConflict,
+    onError,
+    onSuccess,
+  } = options
+
+  let queued: QueuedMutation[] = []
+  let counter = 0
+  let replaying: Promise<void> | undefined
+  let retryCount = 0
+  let retryTimeoutId: ReturnType<typeof setTimeout> | undefined
+  let stopped = false
+  const optimisticIds = new Map<string, { id: number; keys: string[] }>()
+  const listeners = new Set<(mutations: QueuedMutation[]) => void>()
+
+  const getDefinition = (name: string) => {
+    const definition = mutations[name]
+    if (!definition) throw new Error(`react-redux-query: no mutation with name "${name}" passed to createMutationQueue`)
+    return definition
+  }
+
+  const getBases = () => {
+    const { optimisticStates } = getScope(dispatch)
+    const bases: PersistedQueue['bases'] = {}
+    for (const mutation of queued) {
+      for (const key of optimisticIds.get(mutation.id)?.keys || []) {
+        const optimisticState = optimisticStates.get(key)
+        if (optimisticState) bases[key] = { data: optimisticState.base }
+      }
+    }
+    return bases
+  }
+
+  // Storage errors are reported, and never reject, so queue keeps working in memory
+  const setQueued = async (mutations: QueuedMutation[]) => {
+    queued = mutations
+    listeners.forEach((listener) => listener(queued))
+    if (!storage) return
+    try {
+      const persisted: PersistedQueue = { mutations: queued, bases: getBases() }
+      await storage.setItem(storageKey, JSON.stringify(persisted))
+    } catch (e) {
+      onError?.(undefined, e || {})
+    }
+  }
+
+  // Optimistic updates are applied when mutation is queued, and committed or rolled back when it's settled
+  const applyOptimistic = (mutation: QueuedMutation) => {
+    const updates = getDefinition(mutation.name).optimisticUpdates?.(mutation.variables) || []
+    const keys = updates.map(({ key }) => key)
+    optimisticIds.set(mutation.id, { id: applyOptimisticUpdates(dispatch, updates), keys })
+  }
+  const settleOptimistic = (mutation: QueuedMutation, commit: boolean) => {
+    const { id } = optimisticIds.get(mutation.id) || {}
+    optimisticIds.delete(mutation.id)
+    if (id === undefined) return
+    if (commit) commitOptimisticUpdates(dispatch, id)
+    else rollbackOptimisticUpdates(dispatch, id)
+  }
+
+  // If updates are already pending at key, e.g. from mutations queued before queue was restored, base is replaced under
+  // them
+  const restoreBase = (key: string, data: {} | undefined) => {
+    if (getScope(dispatch).optimisticStates.has(key)) {
+      rebaseOptimisticUpdates(dispatch, key, () => (data === undefined ? null : data))
+    } else if (data === undefined) {
+      dispatch(updateQueryState({ key, state: { data: undefined } }))
+    } else {
+      dispatch(update({ key, updater: () => data }))
+    }
+  }
+
+  const restore = async () => {
+    const value = await storage?.getItem(storageKey)
+    if (!value) return
+
+    let persisted: PersistedQueue = { mutations: [], bases: {} }
+    try {
+      persisted = JSON.parse(value)
+    } catch (e) {}
+
+    for (const key of Object.keys(persisted.bases || {})) restoreBase(key, persisted.bases[key].data)
+    // Mutations queued before queue was restored come after restored mutations
+    const restored = (persisted.mutations || []).filter((mutation) => mutations.hasOwnProperty(mutation.name))
+    for (const mutation of restored) applyOptimistic(mutation)
+    await setQueued([...restored, ...queued])
+  }
+  // Queue works even if it can't be restored, e.g. if storage throws error
+  const restored = restore().catch((e) => onError?.(undefined, e || {}))
+
+  // Returns false if mutation should stay queued
+  const send = async (mutation: QueuedMutation) => {
+    const { key, fetcher, optimisticUpdates, ...rest } = getDefinition(mutation.name)
+    const { variables } = mutation
+
+    // Server never confirmed mutation whose request was aborted, so it stays queued
+    let cancelled = false
+    const onEvent = combineEventListeners(rest.onEvent, (event) => {
+      if (event.type === 'cancelled') cancelled = true
+    })
+
+    try {
+      const mutationKey = typeof key === 'string' ? key : key(variables)
+      const response = await mutate(mutationKey, () => fetcher(variables), {
+        retry: 0,
+        ...rest,
+        catchError: false,
+        onEvent,
+        dispatch,
+      })
+      if (cancelled) return false
+
+      const { queryData } = (response || {}) as { queryData?: {} | null }
+      if (response?.hasOwnProperty('queryData') && (queryData === null || queryData === undefined)) {
+        settleOptimistic(mutation, false)
+        onError?.(mutation, response)
+      } else {
+        settleOptimistic(mutation, true)
+        onSuccess?.(mutation, response)
+      }
+    } catch (e) {
+      if (!eventSource.isOnline() || isNetworkError(e)) return false
+      settleOptimistic(mutation, false)
+      if (isConflict(e)) onConflict?.(mutation, e)
+      else onError?.(mutation, e)
+    }
+
+    await setQueued(queued.filter(({ id }) => id !== mutation.id))
+    return true
+  }
+
+  // Browser never emits reconnect event if network fails while it's online, e.g. because server is down, so queue
+  // schedules next replay itself
+  const scheduleRetry = () => {
+    if (stopped) return
+    retryCount += 1
+    retryTimeoutId = setTimeout(replay, retryDelayMs(retryCount))
+  }
+
+  // Only one replay runs at a time, so mutations are always sent in order
+  const replay = () => {
+    if (replaying) return replaying
+
+    clearTimeout(retryTimeoutId as ReturnType<typeof setTimeout>)
+    retryTimeoutId = undefined
+    replaying = (async () => {
+      try {
+        await restored
+        while (queued.length && eventSource.isOnline()) {
+          if (await send(queued[0])) {
+            retryCount = 0
+            continue
+          }
+          if (eventSource.isOnline()) scheduleRetry()
+          break
+        }
+      } catch (e) {
+        onError?.(undefined, e || {})
+      } finally {
+        replaying = undefined
+      }
+    })()
+    return replaying
+  }
+
+  const unsubscribe = eventSource.subscribe('reconnect', replay)
+  restored.then(replay)
+
+  return {
+    mutate: async <V = any>(name: string, variables: V) => {
+      getDefinition(name)
+      const mutation: QueuedMutation<V> = { id: `${Date.now()}-${counter++}`, name, variables, queuedMs: Date.now() }
+      applyOptimistic(mutation)
+
+      // Queue isn't written to storage until it's restored, so persisted mutations are never overwritten
+      await restored
+      await setQueued([...queued, mutation])
+      replay()
+      return mutation
+    },
+    getMutations: () => queued,
+    discard: async (id: string) => {
+      const mutation = queued.find((mutation) => mutation.id === id)
+      if (!mutation) return
+      settleOptimistic(mutation, false)
+      await setQueued(queued.filter((mutation) => mutation.id !== id))
+    },
+    replay,
+    subscribe: (listener: (mutations: QueuedMutation[]) => void) => {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    },
+    restored,
+    stop: () => {
+      stopped = true
+      clearTimeout(retryTimeoutId as ReturnType<typeof setTimeout>)
+      unsubscribe()
+    },
+  }
+}
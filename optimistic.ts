@@ -0,0 +1,141 @@
+import { Dispatch } from 'redux'
+
+import { update, updateQueryState } from './actions'
+import { getScope } from './scope'
+
+export interface OptimisticUpdate<D extends {} = any> {
+  key: string
+  updater: (data: D | undefined) => D | undefined | null
+}
+
+/**
+ * Optimistic updates pending at key. base is data at key before first pending update was applied, or data saved by
+ * fetch since then; data at key is always base with pending updates applied in order.
+ */
+export interface OptimisticState {
+  base: {} | undefined
+  pending: { id: number; updater: OptimisticUpdate['updater'] }[]
+}
+
+let lastOptimisticId = 0
+
+/**
+ * Applies optimistic updates to data in query branch, and records them so they can be committed or rolled back later.
+ *
+ * @param dispatch - Dispatch function of store
+ * @param updates - Array of objects with key in query branch, and updater function that receives data at key and must
+ *  return updated data, undefined, or null
+ *
+ * @returns Id with which to commit or roll back updates
+ */
+export function applyOptimisticUpdates(dispatch: Dispatch, updates: OptimisticUpdate[]) {
+  const id = ++lastOptimisticId
+  const optimisticStates = getScope(dispatch).optimisticStates
+
+  for (const { key, updater } of updates) {
+    // Reducer calls updater synchronously, which lets us read data at key; only first call counts, so replaying action,
+    // e.g. in Redux DevTools, doesn't change what's recorded
+    let read: { data: {} | undefined } | undefined
+    dispatch(
+      update({
+        key,
+        updater: (data) => {
+          if (!read) read = { data }
+          return updater(data)
+        },
+      }),
+    )
+
+    // Update is recorded after reducer returns, so reducer never changes scope
+    let optimisticState = optimisticStates.get(key)
+    if (!optimisticState) {
+      optimisticState = { base: read?.data, pending: [] }
+      optimisticStates.set(key, optimisticState)
+    }
+    optimisticState.pending.push({ id, updater })
+  }
+
+  return id
+}
+
+/**
+ * Commits optimistic updates with id, which means they're kept in query branch even if other pending updates are rolled
+ * back.
+ *
+ * @param dispatch - Dispatch function of store
+ * @param id - Id returned by applyOptimisticUpdates
+ */
+export function commitOptimisticUpdates(dispatch: Dispatch, id: number) {
+  const optimisticStates = getScope(dispatch).optimisticStates
+
+  optimisticStates.forEach((optimisticState, key) => {
+    const committed = optimisticState.pending.find((p) => p.id === id)
+    if (!committed) return
+
+    // Committed update becomes part of base once no earlier update is pending, else it would be applied before them
+    committed.id = 0
+    settle(optimisticStates, key, optimisticState)
+  })
+}
+
+/**
+ * Rolls back optimistic updates with id. Data at each key is recomputed from data before first pending update, with
+ * remaining pending updates applied in order, so rolling back one update never discards another.
+ *
+ * @param dispatch - Dispatch function of store
+ * @param id - Id returned by applyOptimisticUpdates
+ */
+export function rollbackOptimisticUpdates(dispatch: Dispatch, id: number) {
+  const optimisticStates = getScope(dispatch).optimisticStates
+
+  optimisticStates.forEach((optimisticState, key) => {
+    if (!optimisticState.pending.some((p) => p.id === id)) return
+
+    optimisticState.pending = optimisticState.pending.filter((p) => p.id !== id)
+    const data = applyPending(optimisticState)
+    settle(optimisticStates, key, optimisticState)
+    saveData(dispatch, key, data)
+  })
+}
+
+/**
+ * Replaces base of optimistic updates pending at key, e.g. with data saved by refetch or polling while mutation is
+ * pending, so rolling back updates restores this data instead of data from before first pending update. Data at key is
+ * recomputed from new base, with pending updates applied in order. Does nothing if no updates are pending at key.
+ *
+ * @param dispatch - Dispatch function of store
+ * @param key - Key in query branch
+ * @param updater - Function that receives base and must return new base, undefined, or null
+ */
+export function rebaseOptimisticUpdates(dispatch: Dispatch, key: string, updater: OptimisticUpdate['updater']) {
+  const optimisticState = getScope(dispatch).optimisticStates.get(key)
+  if (!optimisticState) return
+
+  optimisticState.base = applyUpdater(optimisticState.base, updater)
+  saveData(dispatch, key, applyPending(optimisticState))
+}
+
+function applyPending(optimisticState: OptimisticState) {
+  return optimisticState.pending.reduce((acc, p) => applyUpdater(acc, p.updater), optimisticState.base)
+}
+
+function saveData(dispatch: Dispatch, key: string, data: {} | undefined) {
+  if (data === undefined) dispatch(updateQueryState({ key, state: { data: undefined } }))
+  else dispatch(update({ key, updater: () => data }))
+}
+
+function applyUpdater(data: {} | undefined, updater: OptimisticUpdate['updater']) {
+  const newData = updater(data)
+  if (newData === undefined) return data
+  if (newData === null) return undefined
+  return newData
+}
+
+// Committed updates (id 0) at front of pending array become part of base; if nothing is pending, we forget key
+function settle(optimisticStates: Map<string, OptimisticState>, key: string, optimisticState: OptimisticState) {
+  while (optimisticState.pending.length && optimisticState.pending[0].id === 0) {
+    optimisticState.base = applyUpdater(optimisticState.base, optimisticState.pending[0].updater)
+    optimisticState.pending.shift()
+  }
+  if (!optimisticState.pending.length) optimisticStates.delete(key)
+}
@@ -0,0 +1,251 @@
+import { Store } from 'redux'
+
+import { hydrate } from './actions'
+import { CacheOptions, trackKeys } from './cache'
+import { dehydrate, DehydratedState } from './hydration'
+import { KeyMatcher, matchKey } from './keys'
+import { getNamespacedDispatch, selectQueryBranch } from './namespace'
+import { QueryBranch } from './query'
+
+/**
+ * Storage adapter; methods can be sync, like localStorage, or async, like IndexedDB.
+ */
+export interface StorageAdapter {
+  getItem: (key: string) => string | null | undefined | Promise<string | null | undefined>
+  setItem: (key: string, value: string) => void | Promise<void>
+  removeItem: (key: string) => void | Promise<void>
+}
+
+export interface PersistOptions extends CacheOptions {
+  storage: StorageAdapter
+  storageKey?: string
+  branchName?: string
+  getBranch?: (state: any) => QueryBranch | undefined
+  namespace?: string
+  version?: number
+  migrate?: (
+    state: DehydratedState,
+    version: number | undefined,
+  ) => DehydratedState | null | undefined | Promise<DehydratedState | null | undefined>
+  include?: KeyMatcher
+  exclude?: KeyMatcher
+  throttleMs?: number
+  maxAgeMs?: number
+  onError?: (error: {}) => void
+}
+
+export interface Persisted {
+  version?: number
+  state: DehydratedState
+}
+
+/**
+ * Creates storage adapter that keeps items in memory, e.g. for tests.
+ *
+ * @returns Storage adapter
+ */
+export function createMemoryStorage(): StorageAdapter {
+  const items = new Map<string, string>()
+  return {
+    getItem: (key) => items.get(key),
+    setItem: (key, value) => {
+      items.set(key, value)
+    },
+    removeItem: (key) => {
+      items.delete(key)
+    },
+  }
+}
+
+/**
+ * Creates storage adapter backed by Web Storage.
+ *
+ * @param storage - Web Storage object (window.localStorage by default)
+ *
+ * @returns Storage adapter
+ */
+export function createWebStorage(storage: Storage = window.localStorage): StorageAdapter {
+  return {
+    getItem: (key) => storage.getItem(key),
+    setItem: (key, value) => storage.setItem(key, value),
+    removeItem: (key) => storage.removeItem(key),
+  }
+}
+
+/**
+ * Creates storage adapter backed by IndexedDB. Unlike Web Storage, IndexedDB doesn't block main thread, and isn't
+ * limited to a few MB.
+ *
+ * @param dbName - Name of database ('react-redux-query' by default)
+ * @param storeName - Name of object store in database ('persist' by default)
+ *
+ * @returns Storage adapter
+ */
+export function createIndexedDBStorage(dbName = 'react-redux-query', storeName = 'persist'): StorageAdapter {
+  let dbPromise: Promise<IDBDatabase> | undefined
+
+  const getDB = () => {
+    if (!dbPromise) {
+      dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(dbName, 1)
+        request.onupgradeneeded = () => request.result.createObjectStore(storeName)
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+      })
+    }
+    return dbPromise
+  }
+
+  const run = async <T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>) => {
+    const db = await getDB()
+    return new Promise<T>((resolve, reject) => {
+      const request = fn(db.transaction(storeName, mode).objectStore(storeName))
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+  }
+
+  return {
+    getItem: (key) => run<string | undefined>('readonly', (store) => store.get(key)),
+    setItem: async (key, value) => {
+      await run('readwrite', (store) => store.put(value, key))
+    },
+    removeItem: async (key) => {
+      await run('readwrite', (store) => store.delete(key))
+    },
+  }
+}
+
+/**
+ * Persists query branch to storage, and restores it from storage. Restored query states are flagged with restored
+ * property, so useQuery refetches their data once, even if noRefetch is true.
+ *
+ * Query branch is only written to storage after it has been restored, so persisted data is never overwritten before
+ * it's read.
+ *
+ * @param store - Redux store
+ * @param options - Options object
+ * @param options.storage - Storage adapter (required)
+ * @param options.storageKey - Key at which to store query branch in storage ('react-redux-query' by default)
+ * @param options.branchName - Name of query branch in Redux state tree ('query' by default)
+ * @param options.getBranch - If passed, this function receives Redux state and returns query branch, e.g. if query
+ *  branch isn't at top level of state tree
+ * @param options.namespace - Namespace of query branch, if its reducer was created with namespace
+ * @param options.version - Version of persisted query branch; bump this when shape of data changes (0 by default)
+ * @param options.migrate - Function that receives persisted query branch and its version, if it doesn't match version;
+ *  returns migrated query branch, or null/undefined to discard persisted query branch (discarded by default)
+ * @param options.include - If passed, only persist matching keys
+ * @param options.exclude - If passed, don't persist matching keys
+ * @param options.throttleMs - Write query branch to storage at most once per this many ms (1000 by default)
+ * @param options.maxAgeMs - If passed, don't restore query states whose data is older than this many ms
+ * @param options.cacheTimeMs - Evict restored query states this many ms after they're restored, unless they have
+ *  subscribers by then (never evicted by default)
+ * @param options.cacheMaxEntries - Max number of keys to keep in query branch (no max by default)
+ * @param options.onError - Called with error if storage or migrate throws error while query branch is restored, or if
+ *  storage throws error while it's written; if query branch can't be restored, it's written to storage anyway
+ *
+ * @returns Object with restored promise, which resolves after query branch is restored, or fails to be restored; flush
+ *  function, which writes pending changes to storage immediately, and rejects if storage throws error; and stop
+ *  function, which stops writing changes to storage
+ */
+export function persistQueryBranch(store: Store<any, any>, options: PersistOptions) {
+  const {
+    storage,
+    storageKey = 'react-redux-query',
+    branchName,
+    getBranch: getBranchFromState,
+    namespace,
+    version = 0,
+    migrate,
+    include,
+    exclude,
+    throttleMs = 1000,
+    maxAgeMs,
+    cacheTimeMs,
+    cacheMaxEntries,
+    onError,
+  } = options
+
+  const shouldPersist = (key: string) => (!include || matchKey(include, key)) && !(exclude && matchKey(exclude, key))
+  const getBranch = () => selectQueryBranch(store.getState(), { branchName, getBranch: getBranchFromState })
+
+  let lastBranch: QueryBranch | undefined
+  let timeoutId: ReturnType<typeof setTimeout> | undefined
+  let stopped = false
+
+  const write = async () => {
+    clearTimeout(timeoutId as ReturnType<typeof setTimeout>)
+    timeoutId = undefined
+    const branch = getBranch()
+    if (branch === lastBranch) return
+
+    lastBranch = branch
+    const persisted: Persisted = { version, state: dehydrate(branch, { filter: shouldPersist }) }
+    try {
+      await storage.setItem(storageKey, JSON.stringify(persisted))
+    } catch (e) {
+      // Branch is written again on next change, or next flush
+      lastBranch = undefined
+      throw e
+    }
+  }
+  // Writes scheduled after changes report errors, because nothing awaits them
+  const writeLater = () => {
+    write().catch((e) => onError?.(e || {}))
+  }
+
+  const restore = async () => {
+    const value = await storage.getItem(storageKey)
+    if (!value) return
+
+    let persisted: Persisted | undefined
+    try {
+      persisted = JSON.parse(value)
+    } catch (e) {}
+
+    let state: DehydratedState | null | undefined = persisted?.state
+    if (state && persisted?.version !== version) state = migrate ? await migrate(state, persisted?.version) : undefined
+    if (!state) {
+      await storage.removeItem(storageKey)
+      return
+    }
+
+    const restored: DehydratedState = {}
+    const now = Date.now()
+    for (const key of Object.keys(state)) {
+      const queryState = state[key]
+      if (!queryState || !shouldPersist(key)) continue
+      if (maxAgeMs !== undefined && (queryState.dataMs === undefined || now - queryState.dataMs > maxAgeMs)) continue
+      restored[key] = { ...queryState, restored: true }
+    }
+    const dispatch = getNamespacedDispatch(store.dispatch, namespace)
+    dispatch(hydrate({ state: restored }))
+    // Restored keys are evicted like keys whose last subscriber is gone, unless hook subscribes to them first
+    trackKeys(dispatch, Object.keys(restored), { cacheTimeMs, cacheMaxEntries })
+  }
+
+  let unsubscribe = () => {}
+  const restoredPromise = restore()
+    .catch((e) => onError?.(e || {}))
+    .then(() => {
+      if (stopped) return
+      lastBranch = getBranch()
+      unsubscribe = store.subscribe(() => {
+        if (timeoutId !== undefined || getBranch() === lastBranch) return
+        timeoutId = setTimeout(writeLater, throttleMs)
+      })
+    })
+
+  return {
+    restored: restoredPromise,
+    flush: async () => {
+      await restoredPromise
+      await write()
+    },
+    stop: () => {
+      stopped = true
+      clearTimeout(timeoutId as ReturnType<typeof setTimeout>)
+      unsubscribe()
+    },
+  }
+}
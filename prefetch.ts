@@ -0,0 +1,164 @@
+import { useCallback, useContext, useEffect, useRef } from 'react'
+import { useStore } from 'react-redux'
+
+import { combineEventListeners } from './lifecycle'
+import { selectQueryBranch } from './namespace'
+import { ConfigContext, query, QueryOptions, QueryResponse, useQueryDispatch } from './query'
+import { getQueryStatus } from './status'
+
+export interface PrefetchOptions<D> extends QueryOptions<D> {
+  staleTimeMs?: number
+}
+
+export interface PrefetchTriggerOptions<D> extends PrefetchOptions<D> {
+  delayMs?: number
+  rootMargin?: string
+}
+
+/**
+ * Hook returns prefetch function, which warms cache ahead of navigation by calling query, unless there's fresh data at
+ * key. Prefetch function stays the same between renders.
+ *
+ * Prefetch function takes key, fetcher, and options, which are query options plus staleTimeMs; data at key is fresh if
+ * it's not invalidated, and is less than staleTimeMs old (staleTimeMs in ConfigContext, or 0, by default). Requests are
+ * deduped by default, so calling prefetch function repeatedly, e.g. on hover, sends at most one request per dedupeMs.
+ *
+ * @returns Prefetch function, which returns response, or undefined if there's fresh data at key, if request for key is
+ *  already in flight, or if request is deduped
+ */
+export function usePrefetch() {
+  const config = useContext(ConfigContext)
+  const dispatch = useQueryDispatch()
+  const store = useStore()
+
+  return useCallback(
+    <D extends {} = any>(
+      key: string,
+      fetcher: (signal: AbortSignal) => Promise<QueryResponse<D>>,
+      options: PrefetchOptions<D> = {},
+    ) => {
+      const { staleTimeMs = config.staleTimeMs ?? 0, ...rest } = options
+      const queryState = selectQueryBranch(store.getState(), config)[key]
+      if (queryState?.inFlight?.length || !getQueryStatus(queryState, { staleTimeMs }).isStale) {
+        return Promise.resolve(undefined)
+      }
+      return query(key, fetcher, {
+        ...config,
+        dedupe: true,
+        ...(rest as QueryOptions<any>),
+        onEvent: combineEventListeners(config.onEvent, rest.onEvent),
+        dispatch,
+      })
+    },
+    [dispatch, store, config],
+  )
+}
+
+/**
+ * Hook returns event handlers that prefetch data at key when element is hovered or focused, e.g. a link to page that
+ * uses data. Prefetch is sent after element is hovered for delayMs, so moving pointer across element doesn't send it.
+ *
+ * @param key - Key in query branch; if null or undefined, nothing is prefetched
+ * @param fetcher - Function that receives AbortSignal and returns response with optional queryData property
+ * @param options - Options object
+ * @param options.delayMs - Prefetch after element is hovered for this many ms (100 by default)
+ * @param options.staleTimeMs - Don't prefetch if data at key is less than this many ms old (staleTimeMs in
+ *  ConfigContext, or 0, by default)
+ * @param options.dedupe - Other query options, e.g. dedupe, are passed to query (dedupe is true by default)
+ *
+ * @returns Object with onMouseEnter, onMouseLeave and onFocus handlers, to spread onto element props
+ */
+export function usePrefetchOnHover<D extends {} = any>(
+  key: string | null | undefined,
+  fetcher: (signal: AbortSignal) => Promise<QueryResponse<D>>,
+  options: PrefetchTriggerOptions<D> = {},
+) {
+  const prefetch = usePrefetch()
+  const timeoutIdRef = useRef<ReturnType<typeof setTimeout>>()
+
+  // Handlers stay the same between renders, but always prefetch latest key with latest fetcher and options
+  const latestRef = useRef({ key, fetcher, options })
+  latestRef.current = { key, fetcher, options }
+
+  const prefetchLatest = useCallback(() => {
+    const { key, fetcher, options } = latestRef.current
+    const { delayMs, rootMargin, ...rest } = options
+    if (key !== null && key !== undefined) prefetch(key, fetcher, rest)
+  }, [prefetch])
+
+  const cancel = useCallback(() => {
+    clearTimeout(timeoutIdRef.current as ReturnType<typeof setTimeout>)
+    timeoutIdRef.current = undefined
+  }, [])
+
+  useEffect(() => cancel, [cancel])
+
+  return {
+    onMouseEnter: useCallback(() => {
+      cancel()
+      timeoutIdRef.current = setTimeout(prefetchLatest, latestRef.current.options.delayMs ?? 100)
+    }, [cancel, prefetchLatest]),
+    onMouseLeave: cancel,
+    onFocus: prefetchLatest,
+  }
+}
+
+/**
+ * Hook returns ref callback that prefetches data at key once element scrolls into view, e.g. a link further down the
+ * page. Uses IntersectionObserver; if it's not available, data is prefetched when element is mounted.
+ *
+ * @param key - Key in query branch; if null or undefined, nothing is prefetched
+ * @param fetcher - Function that receives AbortSignal and returns response with optional queryData property
+ * @param options - Options object
+ * @param options.rootMargin - Margin around viewport within which element counts as in view, e.g. '200px' to prefetch
+ *  before element is visible ('0px' by default)
+ * @param options.staleTimeMs - Don't prefetch if data at key is less than this many ms old (staleTimeMs in
+ *  ConfigContext, or 0, by default)
+ * @param options.dedupe - Other query options, e.g. dedupe, are passed to query (dedupe is true by default)
+ *
+ * @returns Ref callback to pass to element's ref prop
+ */
+export function usePrefetchInView<D extends {} = any>(
+  key: string | null | undefined,
+  fetcher: (signal: AbortSignal) => Promise<QueryResponse<D>>,
+  options: PrefetchTriggerOptions<D> = {},
+) {
+  const prefetch = usePrefetch()
+  const observerRef = useRef<IntersectionObserver>()
+
+  const latestRef = useRef({ key, fetcher, options })
+  latestRef.current = { key, fetcher, options }
+
+  const prefetchLatest = useCallback(() => {
+    const { key, fetcher, options } = latestRef.current
+    const { delayMs, rootMargin, ...rest } = options
+    if (key !== null && key !== undefined) prefetch(key, fetcher, rest)
+  }, [prefetch])
+
+  useEffect(() => () => observerRef.current?.disconnect(), [])
+
+  return useCallback(
+    (element: Element | null) => {
+      observerRef.current?.disconnect()
+      observerRef.current = undefined
+      if (!element) return
+
+      if (typeof IntersectionObserver === 'undefined') {
+        prefetchLatest()
+        return
+      }
+      // Element is only prefetched first time it scrolls into view
+      const observer = new IntersectionObserver(
+        (entries) => {
+          if (!entries.some((entry) => entry.isIntersecting)) return
+          observer.disconnect()
+          prefetchLatest()
+        },
+        { rootMargin: latestRef.current.options.rootMargin ?? '0px' },
+      )
+      observer.observe(element)
+      observerRef.current = observer
+    },
+    [prefetchLatest],
+  )
+}
@@ -0,0 +1,203 @@
+import { useCallback, useContext, useEffect, useRef } from 'react'
+import { shallowEqual, useSelector, useStore } from 'react-redux'
+
+import { CacheOptions, releaseKey, retainKey } from './cache'
+import { combineEventListeners } from './lifecycle'
+import { selectQueryBranch } from './namespace'
+import {
+  ConfigContext,
+  PartialQueryState,
+  query,
+  QueryBranch,
+  QueryOptions,
+  QueryResponse,
+  StateKey,
+  useQueryDispatch,
+} from './query'
+import { registerQuery } from './registry'
+import { pickStateKeys } from './status'
+
+export interface QueriesItem<D extends {} = any> extends QueryOptions<D> {
+  key: string | null | undefined
+  fetcher: ((signal: AbortSignal) => Promise<QueryResponse<D>>) | null | undefined
+  dependsOn?: string
+  noRefetch?: boolean
+}
+
+export interface QueriesOptions<K extends StateKey[], D extends {}> {
+  stateKeys?: K
+  compare?: (prev: PartialQueryState<K, D>[], next: PartialQueryState<K, D>[]) => boolean
+  staleTimeMs?: number
+}
+
+interface QueriesEntry {
+  fetched: boolean
+  abortController?: AbortController
+  unregister: () => void
+  cacheOptions: CacheOptions
+}
+
+function arrayEqual<T>(prev: T[], next: T[], equal: (prev: T, next: T) => boolean = (a, b) => a === b) {
+  return prev.length === next.length && prev.every((item, idx) => equal(item, next[idx]))
+}
+
+/**
+ * Hook calls fetchers for dynamic list of queries, e.g. one query per id in a list, and saves data to query branch at
+ * their keys. Returns query states at keys in same order as queries, plus combined loading and error state.
+ *
+ * Each query is sent when its key is added to list, and when its key is invalidated; queries whose keys are removed
+ * from list are aborted. Query with dependsOn isn't sent until there's data at that key.
+ *
+ * @param queries - Array of objects with key and fetcher, plus query options, plus optional dependsOn and noRefetch
+ *  properties; if key or fetcher is null/undefined, fetcher not called
+ * @param options - Options object
+ * @param options.stateKeys - Additional keys in query state, or status keys, e.g. isLoading, to include in each query
+ *  state in return value (only data and dataMs included by default)
+ * @param options.compare - Equality function compares previous query states with next query states; if it returns
+ *  false, component rerenders, else it doesn't; compares query states with shallowEqual by default
+ * @param options.staleTimeMs - Data is stale this many ms after it's saved, for isStale status (0 by default)
+ *
+ * @returns Object with results, array of query states at keys; data, array of data at keys; error, first error at keys;
+ *  errors, array of errors at keys; isFetching, true if any query is in flight; and isLoading, true if any query with
+ *  key has neither data nor error
+ */
+export function useQueries<K extends StateKey[] = [], D extends {} = any>(
+  queries: QueriesItem<D>[],
+  options: QueriesOptions<K, D> = {},
+) {
+  const config = useContext(ConfigContext)
+  const dispatch = useQueryDispatch()
+  const store = useStore()
+
+  const compare = options.compare || ((prev, next) => arrayEqual(prev, next, shallowEqual))
+  const { results, errors, fetching, waiting } = useSelector(
+    (state) => {
+      const branch: QueryBranch<D> = selectQueryBranch(state, config)
+      const stateKeys = (options.stateKeys || []) as K
+      const staleTimeMs = options.staleTimeMs ?? config.staleTimeMs ?? 0
+      const selected = {
+        results: [] as PartialQueryState<K, D>[],
+        errors: [] as ({} | undefined)[],
+        fetching: [] as boolean[],
+        waiting: [] as boolean[],
+      }
+
+      for (const { key, dependsOn } of queries) {
+        const queryState = key ? branch[key] : undefined
+        const partialQueryState = pickStateKeys(queryState, stateKeys, { staleTimeMs }) as PartialQueryState<K, D>
+        if (queryState) {
+          partialQueryState.data = queryState.data
+          partialQueryState.dataMs = queryState.dataMs
+        }
+        selected.results.push(partialQueryState)
+        selected.errors.push(queryState?.error)
+        selected.fetching.push(Boolean(queryState?.inFlight?.length))
+        selected.waiting.push(dependsOn !== undefined && branch[dependsOn]?.data === undefined)
+      }
+      return selected
+    },
+    (prev, next) =>
+      compare(prev.results, next.results) &&
+      arrayEqual(prev.errors, next.errors) &&
+      arrayEqual(prev.fetching, next.fetching) &&
+      arrayEqual(prev.waiting, next.waiting),
+  )
+
+  // Fetch functions always use latest queries and config
+  const latestRef = useRef({ queries, config })
+  latestRef.current = { queries, config }
+  const entriesRef = useRef(new Map<string, QueriesEntry>())
+
+  const fetchKey = useCallback(
+    (key: string, refetch: boolean) => {
+      const { queries, config } = latestRef.current
+      const entry = entriesRef.current.get(key)
+      const item = queries.find((item) => item.key === key)
+      if (!entry || !item?.fetcher) return
+
+      const { key: _, fetcher, dependsOn, noRefetch, ...rest } = item
+      const branch = selectQueryBranch(store.getState(), config)
+      if (dependsOn !== undefined && branch[dependsOn]?.data === undefined) return
+
+      entry.fetched = true
+      // Invalidated data, and data restored from storage, is refetched even if noRefetch is true
+      const queryState = branch[key]
+      if (!refetch && noRefetch && queryState?.data !== undefined && !queryState.invalidated && !queryState.restored) {
+        return
+      }
+
+      entry.abortController?.abort()
+      const abortController = new AbortController()
+      entry.abortController = abortController
+      query(key, fetcher, {
+        ...config,
+        ...(rest as QueryOptions<any>),
+        onEvent: combineEventListeners(config.onEvent, rest.onEvent),
+        dispatch,
+        signal: abortController.signal,
+      })
+    },
+    [dispatch, store],
+  )
+
+  const removeKey = useCallback(
+    (key: string) => {
+      const entry = entriesRef.current.get(key)
+      if (!entry) return
+
+      entriesRef.current.delete(key)
+      entry.abortController?.abort()
+      entry.unregister()
+      releaseKey(dispatch, key, entry.cacheOptions)
+    },
+    [dispatch],
+  )
+
+  // Effect only runs when keys change, or when queries stop waiting for data at keys they depend on
+  const keysId = JSON.stringify(queries.map(({ key }) => key ?? null))
+  const waitingId = JSON.stringify(waiting)
+
+  useEffect(() => {
+    const { queries, config } = latestRef.current
+    const entries = entriesRef.current
+
+    const keys: string[] = []
+    for (const { key } of queries) if (key !== null && key !== undefined && !keys.includes(key)) keys.push(key)
+    entries.forEach((_, key) => {
+      if (!keys.includes(key)) removeKey(key)
+    })
+
+    for (const key of keys) {
+      let entry = entries.get(key)
+      if (!entry) {
+        const item = queries.find((item) => item.key === key)
+        const cacheOptions = {
+          cacheTimeMs: item?.cacheTimeMs ?? config.cacheTimeMs,
+          cacheMaxEntries: item?.cacheMaxEntries ?? config.cacheMaxEntries,
+        }
+        // Mounted hook counts as subscriber for each key, and invalidateQueries refetches key
+        retainKey(dispatch, key, cacheOptions)
+        entry = { fetched: false, unregister: registerQuery(dispatch, key, () => fetchKey(key, true)), cacheOptions }
+        entries.set(key, entry)
+      }
+      if (!entry.fetched) fetchKey(key, false)
+    }
+  }, [dispatch, keysId, waitingId]) // eslint-disable-line
+
+  // Stop all queries when component unmounts
+  useEffect(() => {
+    const entries = entriesRef.current
+    return () => {
+      entries.forEach((_, key) => removeKey(key))
+    }
+  }, [removeKey])
+
+  return {
+    results,
+    data: results.map((result) => result.data),
+    error: errors.find((error) => error !== undefined),
+    errors,
+    isFetching: fetching.some(Boolean),
+    isLoading: queries.some(({ key }, idx) => key && results[idx]?.data === undefined && errors[idx] === undefined),
+  }
+}
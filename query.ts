@@ -1,28 +1,69 @@
 import { createContext, useContext, useEffect, useRef, useState } from 'react'
-import { batch, shallowEqual, useDispatch, useSelector } from 'react-redux'
-import { Dispatch } from 'redux'
-
-import { update, updateQueryState } from './actions'
-
-const fetchStateByKey: {
-  [key: string]: { fetchMonoMs: number; inFlight: { id: string; fetchMonoMs: number }[] } | undefined
-} = {}
+import { batch, shallowEqual, useDispatch, useSelector, useStore } from 'react-redux'
+import { Dispatch, Store } from 'redux'
+
+import { invalidate, saveEntities, update, updateQueryState } from './actions'
+import { CacheOptions, releaseKey, retainKey } from './cache'
+import { EventSource, getWindowEventSource } from './events'
+import { KeyMatcher, matchKey } from './keys'
+import { combineEventListeners, LifecycleOptions, QueryEvent } from './lifecycle'
+import { BranchConfig, getNamespacedDispatch, selectQueryBranch } from './namespace'
+import { createDenormalizer, Entities, ENTITIES_KEY, normalize, Schema } from './normalize'
+import { rebaseOptimisticUpdates } from './optimistic'
+import { refetchQueries, registerQuery } from './registry'
+import { getRetryDelayMs, RetryOptions, shouldRetryRequest, wait } from './retry'
+import { getScope, Scope } from './scope'
+import { replaceEqualDeep, ShareOptions } from './share'
+import { ConnectionState, Subscribe, subscribeKey, SubscriptionOptions } from './subscription'
+import { pickStateKeys, QueryStatus, StatusKey } from './status'
+
+type ResponseData<R> = R extends { queryData: null | undefined | infer D } ? D : NonNullable<R>
+
+export interface FetchState {
+  fetchMonoMs: number
+  requestId: string
+  goodFetchMonoMs?: number
+  inFlight: { id: string; fetchMonoMs: number }[]
+  abortControllers: { [id: string]: AbortController }
+  holders?: { [id: string]: number }
+}
 
-export const ConfigContext = createContext<{
-  branchName?: string
-  saveStaleResponse?: boolean
-  dedupe?: boolean
-  dedupeMs?: number
-  catchError?: boolean
-  compare?: (prev: QueryState<any>, next: QueryState<any>) => boolean
-  intervalRedefineFetcher?: boolean
-}>({})
+export const ConfigContext = createContext<
+  BranchConfig & {
+    saveStaleResponse?: boolean
+    dedupe?: boolean
+    dedupeMs?: number
+    catchError?: boolean
+    compare?: (prev: QueryState<any>, next: QueryState<any>) => boolean
+    intervalRedefineFetcher?: boolean
+    cacheTimeMs?: number
+    cacheMaxEntries?: number
+    abortPrevious?: boolean
+    retry?: number
+    retryDelayMs?: (attempt: number, error: {}) => number
+    retryJitter?: number
+    shouldRetry?: (error: {}, attempt: number) => boolean
+    refetchOnFocus?: boolean
+    refetchOnReconnect?: boolean
+    staleTimeMs?: number
+    intervalInBackground?: boolean
+    eventSource?: EventSource
+    suspense?: boolean
+    onEvent?: (event: QueryEvent) => void
+    structuralSharing?: boolean
+    bumpDataMs?: boolean
+  }
+>({})
 
 export interface QueryBranch<D extends {} = any> {
   [key: string]: QueryState<D> | undefined
 }
 
-export type PartialQueryState<K extends StateKey[], D extends {}> = Pick<QueryState<D>, 'data' | 'dataMs' | K[number]>
+export type PartialQueryState<K extends StateKey[], D extends {}> = Pick<
+  QueryState<D>,
+  'data' | 'dataMs' | Extract<K[number], keyof QueryState>
+> &
+  Pick<QueryStatus, Extract<K[number], StatusKey>>
 
 export type QueryState<D extends {} = any> = {
   data?: D
@@ -32,23 +73,58 @@ export type QueryState<D extends {} = any> = {
   fetchMs?: number
   goodFetchMonoMs?: number
   inFlight?: { id: string; fetchMonoMs: number }[]
+  invalidated?: boolean
+  restored?: boolean
+  retryCount?: number
+  nextRetryMs?: number
+  connection?: ConnectionState
 }
 
-export type StateKey = Exclude<keyof QueryState, 'data' | 'dataMs'>
+export type StateKey = Exclude<keyof QueryState, 'data' | 'dataMs'> | StatusKey
 
 export type QueryResponse<D extends {} = any> = D | { queryData: D | null | undefined } | null | undefined
 
-export interface QueryOptions<D> {
+export interface QueryOptions<D> extends CacheOptions, RetryOptions, LifecycleOptions<D>, ShareOptions {
   updater?: (data: D | undefined, newData: D) => D | null | undefined
   dedupe?: boolean
   dedupeMs?: number
   catchError?: boolean
   saveStaleResponse?: boolean
+  abortPrevious?: boolean
+  schema?: Schema
 }
 
-export interface QueryStateOptions<K extends StateKey[], D extends {}> {
+export interface QueryStateOptions<K extends StateKey[], D extends {}, S extends {} = D> extends CacheOptions {
   stateKeys?: K
-  compare?: (prev: PartialQueryState<K, D>, next: PartialQueryState<K, D>) => boolean
+  compare?: (prev: PartialQueryState<K, S>, next: PartialQueryState<K, S>) => boolean
+  schema?: Schema
+  staleTimeMs?: number
+  select?: (data: D) => S
+}
+
+export interface UseQueryOptions<K extends StateKey[], D extends {}, S extends {} = D>
+  extends QueryOptions<D>,
+    QueryStateOptions<K, D, S> {
+  intervalMs?: number
+  intervalRedefineFetcher?: boolean
+  intervalInBackground?: boolean
+  refetchOnFocus?: boolean
+  refetchOnReconnect?: boolean
+  suspense?: boolean
+  noRefetch?: boolean
+  noRefetchMs?: number
+  refetchKey?: any
+  dependsOn?: string
+}
+
+/**
+ * Hook returns store's dispatch function, namespaced with namespace in ConfigContext if it's set.
+ *
+ * @returns Dispatch function that hooks pass to RRQ functions
+ */
+export function useQueryDispatch() {
+  const { namespace } = useContext(ConfigContext)
+  return getNamespacedDispatch(useDispatch(), namespace)
 }
 
 /**
@@ -60,38 +136,101 @@ export interface QueryStateOptions<K extends StateKey[], D extends {}> {
  * - If response.queryData is set, save queryData
  * - If response.queryData is set but is null or undefined, don't save anything
  *
+ * If request is aborted, nothing is saved, and request is removed from inFlight array.
+ *
+ * If schema is passed, entities in data are saved at ENTITIES_KEY, and data saved at key is { result }, where result is
+ * data with entities replaced by their ids.
+ *
  * @param key - Key in query branch at which to store response
- * @param fetcher - Function that returns response with optional queryData property
+ * @param fetcher - Function that receives AbortSignal and returns response with optional queryData property
  * @param options - Options object
  * @param options.dispatch - Dispatch function to send data to store (required)
+ * @param options.signal - If passed, aborting this signal aborts request
+ * @param options.abortPrevious - If true, abort other in-flight requests for key when this request is sent (false by
+ *  default)
+ * @param options.retry - Max number of times to retry request if fetcher throws error (0 by default)
+ * @param options.retryDelayMs - Backoff function that receives retry attempt (starting from 1) and error, and returns
+ *  delay before retry (1s before first retry, doubling before each subsequent retry up to 30s by default)
+ * @param options.retryJitter - Randomly reduce each retry delay by up to this fraction, between 0 and 1 (0 by default)
+ * @param options.shouldRetry - If passed, request is only retried if this function receives error and retry attempt,
+ *  and returns true
  * @param options.updater - If passed, this function takes data currently at key, plus data in response, and returns
- *  updated data to be saved at key
+ *  updated data to be saved at key; if schema is passed, updater receives and returns normalized data
+ * @param options.schema - If passed, normalize data with this schema, so entities are shared across keys
  * @param options.saveStaleResponse - If true, save response even if it's "stale" (false by default)
+ * @param options.structuralSharing - If true, parts of response data deeply equal to data at key keep their references,
+ *  so components using them don't rerender; disable for huge payloads (true by default)
+ * @param options.bumpDataMs - If false, data at key and dataMs aren't updated if response data is deeply equal to data
+ *  at key (true by default)
  * @param options.dedupe - If true, don't call fetcher if another request was recently sent for key (false by default)
  * @param options.dedupeMs - If dedupe is true, dedupe behavior active for this many ms (2000 by default)
  * @param options.catchError - If true, any error thrown by fetcher is caught and assigned to queryState.error property
  *  (true by default)
+ * @param options.cacheTimeMs - If key has no subscribers after request completes, evict query state at key after this
+ *  many ms (never evicted by default)
+ * @param options.cacheMaxEntries - Max number of keys to keep in query branch (no max by default)
+ * @param options.onSuccess - Called with data and response if request succeeds, even if response is stale
+ * @param options.onError - Called with error if fetcher throws error, or with response if response.queryData is set but
+ *  is null or undefined
+ * @param options.onSettled - Called with data and error after onSuccess or onError
+ * @param options.onEvent - Called with lifecycle events: started, deduped, retried, succeeded, failed,
+ *  stale-response-dropped, and cancelled
  *
- * @returns Response, or undefined if fetcher call gets deduped, or undefined if fetcher throws error
+ * @returns Response, or undefined if fetcher call gets deduped, or undefined if fetcher throws error, or undefined if
+ *  request is aborted
  */
 export async function query<R extends QueryResponse<{}>>(
   key: string,
-  fetcher: () => Promise<R>,
-  options: QueryOptions<R extends { queryData: null | undefined | infer D } ? D : NonNullable<R>> & {
+  fetcher: (signal: AbortSignal) => Promise<R>,
+  options: QueryOptions<ResponseData<R>> & {
     dispatch: Dispatch
+    signal?: AbortSignal
   },
 ) {
-  const { dispatch, updater, dedupe = false, dedupeMs = 2000, catchError = true, saveStaleResponse = false } = options
+  const {
+    dispatch,
+    updater,
+    dedupe = false,
+    dedupeMs = 2000,
+    catchError = true,
+    saveStaleResponse = false,
+    cacheTimeMs,
+    cacheMaxEntries,
+    signal,
+    abortPrevious = false,
+    retry = 0,
+    schema,
+    onSuccess,
+    onError,
+    onSettled,
+    onEvent,
+    structuralSharing,
+    bumpDataMs,
+  } = options
+
+  if (signal?.aborted) return
 
   const fetchMs = Date.now()
   const fetchMonoMs = Math.round(performance.now())
 
+  // Fetch state is scoped per store, so requests for one store never dedupe or abort requests for another
+  const { fetchStateByKey, pendingQueries } = getScope(dispatch)
   const fetchStateBefore = fetchStateByKey[key]
   // Bail out if dedupe is true and another request was recently sent for key
-  if (dedupe && fetchStateBefore && fetchMonoMs - fetchStateBefore.fetchMonoMs <= dedupeMs) return
+  if (dedupe && fetchStateBefore && fetchMonoMs - fetchStateBefore.fetchMonoMs <= dedupeMs) {
+    // Caller waits for response of request that deduped its request, so aborting signal of that request's caller alone
+    // doesn't abort it
+    holdRequest(fetchStateByKey, key, fetchStateBefore.requestId, signal)
+    const durationMs = fetchMonoMs - fetchStateBefore.fetchMonoMs
+    onEvent?.({ type: 'deduped', key, requestId: fetchStateBefore.requestId, durationMs })
+    return
+  }
+
+  // Previous requests are removed from inFlight array as soon as they're aborted
+  if (abortPrevious) abortInFlight(fetchStateByKey, key)
 
   // Create shallow copy of inFlight array so === comparison returns false
-  const inFlightBefore = [...(fetchStateBefore?.inFlight || [])]
+  const inFlightBefore = [...(fetchStateByKey[key]?.inFlight || [])]
 
   // Create unique id for in-flight request, and add it to inFlight array
   let counter = 0
@@ -106,173 +245,550 @@ export async function query<R extends QueryResponse<{}>>(
     counter += 1
   }
 
+  // In-flight request counts as subscriber, so query state at key isn't evicted until request completes
+  retainKey(dispatch, key, { cacheMaxEntries })
+
+  // Pending query is tracked until it settles, so tests can wait for all queries to settle
+  let settle = () => {}
+  const pending = new Promise<void>((resolve) => (settle = resolve))
+  pendingQueries.add(pending)
+
+  // Aborting signal passed by client aborts request, unless caller of deduped request still waits for its response
+  const abortController = new AbortController()
+  const release = () => releaseRequest(fetchStateByKey, key, requestId)
+  signal?.addEventListener('abort', release)
+
   // Notify client that fetcher will be called
-  fetchStateByKey[key] = { fetchMonoMs, inFlight: inFlightBefore }
+  fetchStateByKey[key] = {
+    ...fetchStateByKey[key],
+    fetchMonoMs,
+    requestId,
+    inFlight: inFlightBefore,
+    abortControllers: { ...fetchStateByKey[key]?.abortControllers, [requestId]: abortController },
+    holders: { ...fetchStateByKey[key]?.holders, [requestId]: 1 },
+  }
   dispatch(updateQueryState({ key, state: { fetchMs, inFlight: inFlightBefore } }))
+  onEvent?.({ type: 'started', key, requestId, durationMs: 0 })
+  const getDurationMs = () => Math.round(performance.now()) - fetchMonoMs
 
-  // Call fetcher
-  let response = undefined as R
-  let error: undefined | {}
   try {
-    response = await fetcher()
-  } catch (e) {
-    error = e || {}
-  }
+    // Call fetcher, and retry while it throws errors that should be retried
+    let response = undefined as R
+    let error: undefined | {}
+    let retryCount = 0
+    while (true) {
+      try {
+        response = await fetcher(abortController.signal)
+        error = undefined
+        break
+      } catch (e) {
+        const fetchError: {} = e || {}
+        error = fetchError
+        if (abortController.signal.aborted || !shouldRetryRequest(fetchError, retryCount + 1, options)) break
+
+        retryCount += 1
+        const errorMs = Date.now()
+        const delayMs = getRetryDelayMs(retryCount, fetchError, options)
+        const nextRetryMs = errorMs + delayMs
+        dispatch(updateQueryState({ key, state: { error, errorMs, retryCount, nextRetryMs } }))
+        const durationMs = getDurationMs()
+        onEvent?.({ type: 'retried', key, requestId, durationMs, error: fetchError, retryCount, delayMs })
+        await wait(nextRetryMs - errorMs, abortController.signal)
+        if (abortController.signal.aborted) break
+      }
+    }
+    signal?.removeEventListener('abort', release)
+    // If retries are enabled, clear nextRetryMs once request completes
+    const retryState = retry > 0 ? { retryCount, nextRetryMs: undefined } : {}
+
+    // Remove request from inFlight array
+    const afterMs = Date.now()
+    const durationMs = getDurationMs()
+    const fetchState = fetchStateByKey[key]
+    // Call filter to remove completed request; filter also ensures === comparison returns false with old inFlight array
+    const inFlight = (fetchState?.inFlight || []).filter((data) => data.id !== requestId)
+    const { [requestId]: _, ...abortControllers } = fetchState?.abortControllers || {}
+    const { [requestId]: __, ...holders } = fetchState?.holders || {}
+    fetchStateByKey[key] = {
+      ...fetchState,
+      fetchMonoMs: fetchState?.fetchMonoMs || fetchMonoMs,
+      requestId: fetchState?.requestId || requestId,
+      inFlight,
+      abortControllers,
+      holders,
+    }
 
-  // Remove request from inFlight array
-  const afterMs = Date.now()
-  const fetchState = fetchStateByKey[key]
-  // Call filter to remove completed request; filter also ensures === comparison returns false with old inFlight array
-  const inFlight = (fetchState?.inFlight || []).filter((data) => data.id !== requestId)
-  fetchStateByKey[key] = { fetchMonoMs: fetchState?.fetchMonoMs || fetchMonoMs, inFlight }
-
-  // If error was thrown, notify client and bail out
-  if (error) {
-    dispatch(updateQueryState({ key, state: { error, errorMs: afterMs, inFlight } }))
-    if (catchError) return
-    throw error
-  }
+    // If request was aborted, ignore response or error
+    if (abortController.signal.aborted) {
+      dispatch(updateQueryState({ key, state: { inFlight } }))
+      onEvent?.({ type: 'cancelled', key, requestId, durationMs })
+      return
+    }
+
+    const fail = (error: {}) => {
+      onEvent?.({ type: 'failed', key, requestId, durationMs, error })
+      onError?.(error)
+      onSettled?.(undefined, error)
+    }
+
+    // If error was thrown, notify client and bail out
+    if (error) {
+      dispatch(updateQueryState({ key, state: { error, errorMs: afterMs, inFlight, ...retryState } }))
+      fail(error)
+      if (catchError) return
+      throw error
+    }
+
+    const saveData = (data: ResponseData<R>) => {
+      // Reducer drops response if request sent later already saved its response; updater is applied either way
+      const latestFetchState = fetchStateByKey[key]
+      const goodFetchMonoMs = latestFetchState?.goodFetchMonoMs || 0
+      const stale = !updater && !saveStaleResponse && fetchMonoMs < goodFetchMonoMs
+      if (latestFetchState && !stale) {
+        fetchStateByKey[key] = { ...latestFetchState, goodFetchMonoMs: Math.max(fetchMonoMs, goodFetchMonoMs) }
+      }
 
-  const saveData = (data: {}) => {
-    if (updater) {
       // Results in only one rerender, not two: https://react-redux.js.org/api/batch#batch
       batch(() => {
-        dispatch(
-          updateQueryState({
-            key,
-            state: { dataMs: afterMs, goodFetchMonoMs: fetchMonoMs, inFlight },
-          }),
-        )
-        // @ts-ignore; newData property only for internal use, including it in Update interface would just be confusing
-        dispatch(update({ key, updater, newData: data }))
+        // Saved data is normalized if schema is passed, but lifecycle callbacks still receive data in response
+        let savedData: {} = data
+        // Don't save entities in stale response, because they're older than entities saved by later request
+        if (schema && !stale) {
+          const { result, entities } = normalize(data, schema)
+          dispatch(saveEntities({ entities }))
+          savedData = { result }
+        }
+
+        if (updater) {
+          dispatch(
+            updateQueryState({
+              key,
+              state: { dataMs: afterMs, goodFetchMonoMs: fetchMonoMs, inFlight, ...retryState },
+            }),
+          )
+          // @ts-ignore; newData property only for internal use, including it in Update interface would just be confusing
+          dispatch(update({ key, updater, newData: savedData, options: { structuralSharing, bumpDataMs } }))
+        } else {
+          dispatch(
+            updateQueryState({
+              key,
+              state: {
+                data: { ...savedData },
+                dataMs: afterMs,
+                goodFetchMonoMs: fetchMonoMs,
+                inFlight,
+                ...retryState,
+              },
+              options: { saveStaleResponse, structuralSharing, bumpDataMs },
+            }),
+          )
+        }
+
+        // Optimistic updates pending at key are applied on top of saved data, and rolled back to it
+        if (!stale) {
+          const dataUpdater = updater as QueryOptions<{}>['updater']
+          rebaseOptimisticUpdates(dispatch, key, (base) => (dataUpdater ? dataUpdater(base, savedData) : savedData))
+        }
       })
-    } else {
-      dispatch(
-        updateQueryState({
-          key,
-          state: { data: { ...data }, dataMs: afterMs, goodFetchMonoMs: fetchMonoMs, inFlight },
-          options: { saveStaleResponse },
-        }),
-      )
+
+      if (stale) onEvent?.({ type: 'stale-response-dropped', key, requestId, durationMs, response })
+      else onEvent?.({ type: 'succeeded', key, requestId, durationMs, response })
+      onSuccess?.(data, response)
+      onSettled?.(data, undefined)
     }
-  }
 
-  if (response?.hasOwnProperty('queryData')) {
-    const { queryData } = response as { queryData?: {} | null }
-    if (queryData !== null && queryData !== undefined) {
-      // If response.queryData is set and is neither null nor undefined, save response.queryData
-      saveData(queryData)
+    if (response?.hasOwnProperty('queryData')) {
+      const { queryData } = response as { queryData?: {} | null }
+      if (queryData !== null && queryData !== undefined) {
+        // If response.queryData is set and is neither null nor undefined, save response.queryData
+        saveData(queryData as ResponseData<R>)
+      } else {
+        // If response.queryData is set but is null or undefined, save response as error
+        const error = { ...response } as {}
+        dispatch(updateQueryState({ key, state: { error, errorMs: afterMs, inFlight, ...retryState } }))
+        fail(error)
+      }
+    } else if (response !== null && response !== undefined) {
+      // If saveData.queryData isn't set, only save response if it's neither null nor undefined
+      saveData(response as ResponseData<R>)
     } else {
-      // If response.queryData is set but is null or undefined, save response as error
-      dispatch(
-        updateQueryState({
-          key,
-          state: { error: { ...response } as {}, errorMs: afterMs, inFlight },
-        }),
-      )
+      onEvent?.({ type: 'succeeded', key, requestId, durationMs, response })
+      onSuccess?.(undefined, response)
+      onSettled?.(undefined, undefined)
     }
-  } else if (response !== null && response !== undefined) {
-    // If saveData.queryData isn't set, only save response if it's neither null nor undefined
-    saveData(response as {})
+
+    return response
+  } finally {
+    // Release key after data is saved, so eviction timer starts from when request completes
+    releaseKey(dispatch, key, { cacheTimeMs, cacheMaxEntries })
+    pendingQueries.delete(pending)
+    settle()
   }
+}
 
-  return response
+/**
+ * Calls query with store's dispatch function, and awaits response. Use this to fetch data outside of React, e.g. on
+ * server before rendering, then pass dehydrated query branch to client.
+ *
+ * @param store - Redux store
+ * @param key - Key in query branch at which to store response
+ * @param fetcher - Function that receives AbortSignal and returns response with optional queryData property
+ * @param options - Same options as query, without dispatch
+ * @param options.namespace - If passed, actions are namespaced, for query branch whose reducer was created with this
+ *  namespace
+ *
+ * @returns Response, or undefined if fetcher call gets deduped, or undefined if fetcher throws error
+ */
+export function prefetch<R extends QueryResponse<{}>>(
+  store: Store<any, any>,
+  key: string,
+  fetcher: (signal: AbortSignal) => Promise<R>,
+  options: QueryOptions<R extends { queryData: null | undefined | infer D } ? D : NonNullable<R>> & {
+    signal?: AbortSignal
+    namespace?: string
+  } = {},
+) {
+  const { namespace, ...rest } = options
+  return query(key, fetcher, { ...rest, dispatch: getNamespacedDispatch(store.dispatch, namespace) })
+}
+
+/**
+ * Aborts in-flight requests for matching keys, and removes them from inFlight arrays. Fetchers receive AbortSignal, and
+ * are responsible for aborting their requests when it fires; responses of aborted requests are ignored either way.
+ *
+ * @param matcher - Key, object with key prefix, or predicate function that receives key and returns true if it matches
+ * @param options - Options object
+ * @param options.dispatch - Dispatch function to send data to store (required)
+ *
+ * @returns Keys for which requests were aborted
+ */
+export function cancel(matcher: KeyMatcher, options: { dispatch: Dispatch }) {
+  const { dispatch } = options
+  const { fetchStateByKey } = getScope(dispatch)
+  const keys = Object.keys(fetchStateByKey).filter(
+    (key) => matchKey(matcher, key) && fetchStateByKey[key]?.inFlight.length,
+  )
+
+  batch(() => {
+    for (const key of keys) {
+      abortInFlight(fetchStateByKey, key)
+      dispatch(updateQueryState({ key, state: { inFlight: [] } }))
+    }
+  })
+  return keys
+}
+
+function abortInFlight(fetchStateByKey: Scope['fetchStateByKey'], key: string) {
+  const fetchState = fetchStateByKey[key]
+  if (!fetchState) return
+
+  for (const id of Object.keys(fetchState.abortControllers)) fetchState.abortControllers[id].abort()
+  fetchStateByKey[key] = { ...fetchState, inFlight: [], abortControllers: {}, holders: {} }
+}
+
+// Each caller waiting for response of in-flight request holds it; request is aborted once every holder releases it
+function holdRequest(fetchStateByKey: Scope['fetchStateByKey'], key: string, requestId: string, signal?: AbortSignal) {
+  const holders = fetchStateByKey[key]?.holders
+  if (!holders || holders[requestId] === undefined) return
+
+  holders[requestId] += 1
+  signal?.addEventListener('abort', () => releaseRequest(fetchStateByKey, key, requestId))
+}
+
+function releaseRequest(fetchStateByKey: Scope['fetchStateByKey'], key: string, requestId: string) {
+  const fetchState = fetchStateByKey[key]
+  const holders = fetchState?.holders
+  if (!fetchState || !holders || holders[requestId] === undefined) return
+
+  holders[requestId] -= 1
+  if (holders[requestId] <= 0) fetchState.abortControllers[requestId]?.abort()
+}
+
+/**
+ * Marks query states at matching keys as invalidated, and refetches data for mounted useQuery hooks whose keys match.
+ * Unmounted useQuery hooks refetch invalidated data when they mount, even if noRefetch is true.
+ *
+ * @param matcher - Key, object with key prefix, or predicate function that receives key and returns true if it matches
+ * @param options - Options object
+ * @param options.dispatch - Dispatch function to send data to store (required)
+ *
+ * @returns Keys of mounted useQuery hooks that were refetched
+ */
+export function invalidateQueries(matcher: KeyMatcher, options: { dispatch: Dispatch }) {
+  const { dispatch } = options
+  dispatch(invalidate(matcher))
+  return refetchQueries(dispatch, matcher)
+}
+
+/**
+ * Clears error at key, and refetches data for mounted useQuery hooks with key. Call this when resetting error boundary
+ * that caught error thrown by useQuery in suspense mode; useQuery throws error at key, if there's no data at key, until
+ * error is cleared.
+ *
+ * @param key - Key in query branch
+ * @param options - Options object
+ * @param options.dispatch - Dispatch function to send data to store (required)
+ *
+ * @returns Keys of mounted useQuery hooks that were refetched
+ */
+export function resetQueryError(key: string, options: { dispatch: Dispatch }) {
+  const { dispatch } = options
+  getScope(dispatch).suspenseRequests.delete(key)
+  dispatch(updateQueryState({ key, state: { error: undefined, errorMs: undefined } }))
+  return refetchQueries(dispatch, key)
 }
 
 /**
  * Hook calls fetcher and saves data to query branch at key. Immediately returns query state (including data, dataMs,
  * dataMonoMs) at key, and subscribes to changes in this query state.
  *
- * Data is only refetched if key, intervalMs, or refetchKey changes; passing in a new fetcher function alone doesn't
- * refetch data.
+ * Data is only refetched if key, intervalMs, or refetchKey changes, or on window focus or network reconnect if
+ * refetchOnFocus or refetchOnReconnect is true; passing in a new fetcher function alone doesn't refetch data.
+ * In-flight request is aborted if data is refetched for any of these reasons, or if component unmounts, unless request
+ * of another mounted hook was deduped and still waits for its response.
+ *
+ * In suspense mode, hook calls fetcher while rendering if there's no data at key, and throws promise that resolves when
+ * request completes, so component suspends. If request is deduped, component suspends until request that deduped it
+ * completes, and if dependsOn is passed, component suspends until there's data at that key. If request fails, hook
+ * throws error at key to nearest error boundary, until there's data at key, or error is cleared with resetQueryError.
  *
  * @param key - Key in query branch at which to store data; if null/undefined, fetcher not called
- * @param fetcher - Function that returns response with optional queryData property; if null/undefined, fetcher not
- *  called
+ * @param fetcher - Function that receives AbortSignal and returns response with optional queryData property; if
+ *  null/undefined, fetcher not called
  * @param options - Options object
  * @param options.intervalMs - Interval between end of fetcher call and next fetcher call
  * @param options.intervalRedefineFetcher - If true, fetcher is redefined each time it's called on interval, by forcing
  *  component to rerender (false by default)
- * @param options.noRefetch - If true, don't refetch if there's already data at key
+ * @param options.intervalInBackground - If true, keep calling fetcher on interval while page is hidden, instead of
+ *  pausing until page is visible (false by default)
+ * @param options.refetchOnFocus - If true, refetch when window gets focus, if data is stale (false by default)
+ * @param options.refetchOnReconnect - If true, refetch when network reconnects, if data is stale (false by default)
+ * @param options.staleTimeMs - Data is stale this many ms after it's saved, for refetchOnFocus, refetchOnReconnect and
+ *  isStale status (0 by default)
+ * @param options.suspense - If true, suspend while there's no data at key, and throw error at key to nearest error
+ *  boundary (false by default)
+ * @param options.noRefetch - If true, don't refetch if there's already data at key, unless data was invalidated or
+ *  restored from storage
  * @param options.noRefetchMs - If noRefetch is true, noRefetch behavior active for this many ms (forever by default)
  * @param options.refetchKey - Pass in new value to force refetch without changing key
+ * @param options.dependsOn - If passed, fetcher isn't called until there's data at this key, e.g. key of query whose
+ *  data is needed to send this query
+ * @param options.onSuccess - Called with data and response if request succeeds
+ * @param options.onError - Called with error if request fails
+ * @param options.onSettled - Called with data and error after onSuccess or onError
+ * @param options.onEvent - Called with lifecycle events of requests, after onEvent in ConfigContext
  * @param options.updater - If passed, this function takes data currently at key, plus data in response, and returns
- *  updated data to be saved at key
+ *  updated data to be saved at key; if schema is passed, updater receives and returns normalized data
+ * @param options.schema - If passed, normalize data with this schema when it's saved, and denormalize it when it's read
  * @param options.saveStaleResponse - If true, save response even if it's "stale" (false by default)
+ * @param options.structuralSharing - If true, parts of response data deeply equal to data at key keep their references,
+ *  so components using them don't rerender; disable for huge payloads (true by default)
+ * @param options.bumpDataMs - If false, data at key and dataMs aren't updated if response data is deeply equal to data
+ *  at key (true by default)
  * @param options.dedupe - If true, don't call fetcher if another request was recently sent for key
  * @param options.dedupeMs - If dedupe is true, dedupe behavior active for this many ms (2000 by default)
  * @param options.catchError - If true, any error thrown by fetcher is caught and assigned to queryState.error property
  *  (true by default)
- * @param options.stateKeys - Additional keys in query state to include in return value (only data and dataMs included
- *  by default)
+ * @param options.abortPrevious - If true, abort other in-flight requests for key when request is sent (false by default)
+ * @param options.retry - Max number of times to retry request if fetcher throws error (0 by default)
+ * @param options.retryDelayMs - Backoff function that receives retry attempt (starting from 1) and error, and returns
+ *  delay before retry (1s before first retry, doubling before each subsequent retry up to 30s by default)
+ * @param options.retryJitter - Randomly reduce each retry delay by up to this fraction, between 0 and 1 (0 by default)
+ * @param options.shouldRetry - If passed, request is only retried if this function receives error and retry attempt,
+ *  and returns true
+ * @param options.stateKeys - Additional keys in query state, or status keys, e.g. isLoading, to include in return value
+ *  (only data and dataMs included by default)
  * @param options.compare - Equality function compares previous query state with next query state; if it returns false,
  *  component rerenders, else it doesn't; uses shallowEqual by default
+ * @param options.select - If passed, this function receives data at key, and returns data returned by hook
+ * @param options.cacheTimeMs - Evict query state at key this many ms after last subscriber unmounts (never evicted by
+ *  default)
+ * @param options.cacheMaxEntries - Max number of keys to keep in query branch (no max by default)
  *
  * @returns Query state at key, with subset of properties specified by stateKeys
  */
-export function useQuery<K extends StateKey[] = [], D extends {} = any>(
+export function useQuery<K extends StateKey[] = [], D extends {} = any, S extends {} = D>(
   key: string | null | undefined,
-  fetcher: (() => Promise<QueryResponse<D>>) | null | undefined,
-  options: QueryOptions<D> &
-    QueryStateOptions<K, D> & {
-      intervalMs?: number
-      intervalRedefineFetcher?: boolean
-      noRefetch?: boolean
-      noRefetchMs?: number
-      refetchKey?: any
-    } = {},
+  fetcher: ((signal: AbortSignal) => Promise<QueryResponse<D>>) | null | undefined,
+  options: UseQueryOptions<K, D, S> = {},
 ) {
   const {
     stateKeys,
     compare,
+    select,
     intervalMs = 0,
     intervalRedefineFetcher,
+    intervalInBackground,
+    refetchOnFocus,
+    refetchOnReconnect,
+    staleTimeMs,
+    suspense,
     noRefetch = false,
     noRefetchMs = 0,
     refetchKey,
+    dependsOn,
     updater,
     ...rest
   } = options
   const config = useContext(ConfigContext)
-  const dispatch = useDispatch()
+  const dispatch = useQueryDispatch()
+  const store = useStore()
 
   const [intervalId, setIntervalId] = useState(0)
+  const [refetchId, setRefetchId] = useState(0)
   const intervalTimeoutIdRef = useRef<number>()
   const redefineFetcher = intervalRedefineFetcher ?? config.intervalRedefineFetcher ?? false
+  const inBackground = intervalInBackground ?? config.intervalInBackground ?? false
+  const onFocus = refetchOnFocus ?? config.refetchOnFocus ?? false
+  const onReconnect = refetchOnReconnect ?? config.refetchOnReconnect ?? false
+  const eventSource = config.eventSource || getWindowEventSource()
 
-  const queryState = useQueryState<K, D>(key, { stateKeys, compare })
+  const queryState = useQueryState<K, D, S>(key, {
+    stateKeys,
+    compare,
+    select,
+    cacheTimeMs: rest.cacheTimeMs,
+    cacheMaxEntries: rest.cacheMaxEntries,
+    schema: rest.schema,
+    staleTimeMs,
+  })
+  // Checks below read data at key, not data returned by select, which can be falsy or undefined while there's data at key
+  const hasData = useSelector((state) => {
+    return key !== null && key !== undefined && selectQueryBranch(state, config)[key]?.data !== undefined
+  })
+  // Invalidated data, and data restored from storage, is refetched even if noRefetch is true
+  const revalidate = useSelector((state) => {
+    const queryState = key ? selectQueryBranch(state, config)[key] : undefined
+    return Boolean(queryState?.invalidated || queryState?.restored)
+  })
+  // Query that depends on another key waits until there's data at that key
+  const waiting = useSelector((state) => {
+    return dependsOn !== undefined && selectQueryBranch(state, config)[dependsOn]?.data === undefined
+  })
+
+  // In suspense mode, suspend while there's no data at key, and throw error at key to nearest error boundary
+  const suspenseMode = suspense ?? config.suspense ?? false
+  const suspenseError = useSelector((state) => {
+    return suspenseMode && key ? selectQueryBranch(state, config)[key]?.error : undefined
+  })
+  const fetchedWhileSuspendedRef = useRef(false)
+  if (suspenseMode && key !== null && key !== undefined && fetcher && !hasData) {
+    const getQueryState = (key: string) => selectQueryBranch(store.getState(), config)[key]
+    // Fetcher can't be called until there's data at dependsOn key, and it might need this data, so suspend until then
+    if (waiting) throw waitForStore(store, () => getQueryState(dependsOn as string)?.data !== undefined)
+
+    // Request is kept in scope, because suspended component doesn't keep its state
+    const suspenseRequests = getScope(dispatch).suspenseRequests
+    const request = suspenseRequests.get(key)
+    if (!request) {
+      if (suspenseError) throw suspenseError
+
+      const newRequest = { promise: Promise.resolve(), settled: false }
+      const settle = () => {
+        newRequest.settled = true
+      }
+      // If request is deduped, keep suspending until request that deduped it completes
+      const done = () => {
+        const queryState = getQueryState(key)
+        return queryState?.data !== undefined || !queryState?.inFlight?.length
+      }
+      newRequest.promise = query(key, fetcher, {
+        ...config,
+        ...(rest as QueryOptions<any>),
+        updater: updater as QueryOptions<any>['updater'],
+        onEvent: combineEventListeners(config.onEvent, rest.onEvent),
+        dispatch,
+      })
+        .then(() => waitForStore(store, done))
+        .then(settle, settle)
+      suspenseRequests.set(key, newRequest)
+      throw newRequest.promise
+    }
+    if (!request.settled) throw request.promise
+
+    // Request sent while suspended has completed, so effect doesn't need to send it again
+    suspenseRequests.delete(key)
+    fetchedWhileSuspendedRef.current = true
+    if (suspenseError) throw suspenseError
+  }
+
+  // Register hook so invalidateQueries can force it to refetch
+  useEffect(() => {
+    if (key === null || key === undefined) return
+    return registerQuery(dispatch, key, () => setRefetchId((id) => id + 1))
+  }, [dispatch, key])
+
+  // Event listeners read latest dataMs and staleTimeMs, without resubscribing whenever they change
+  const dataMsRef = useRef({ dataMs: queryState.dataMs, staleTimeMs: staleTimeMs ?? config.staleTimeMs ?? 0 })
+  dataMsRef.current = { dataMs: queryState.dataMs, staleTimeMs: staleTimeMs ?? config.staleTimeMs ?? 0 }
+
+  // Refetch stale data when window gets focus, or network reconnects
+  useEffect(() => {
+    if (key === null || key === undefined || (!onFocus && !onReconnect)) return
+
+    const refetchIfStale = () => {
+      const { dataMs, staleTimeMs } = dataMsRef.current
+      if (typeof dataMs === 'number' && Date.now() - dataMs < staleTimeMs) return
+      setRefetchId((id) => id + 1)
+    }
+    const unsubscribes: (() => void)[] = []
+    if (onFocus) unsubscribes.push(eventSource.subscribe('focus', refetchIfStale))
+    if (onReconnect) unsubscribes.push(eventSource.subscribe('reconnect', refetchIfStale))
+
+    return () => {
+      for (const unsubscribe of unsubscribes) unsubscribe()
+    }
+  }, [key, onFocus, onReconnect, eventSource])
 
   useEffect(() => {
     // If we have pending interval call to query, clear it; we're about to query again anyway
     clearTimeout(intervalTimeoutIdRef.current)
+    const fetchedWhileSuspended = fetchedWhileSuspendedRef.current
+    fetchedWhileSuspendedRef.current = false
 
     // Should we return early?
-    if (queryState.data && noRefetch) {
+    if (hasData && noRefetch && !revalidate) {
       // Defensive code; can't be sure dataMs is a number (user could use their own reducer)
       if (noRefetchMs <= 0 || typeof queryState.dataMs !== 'number') return
       // User specified a positive value for noRefetchMs; determine if we should we refetch or not
       if (Date.now() - queryState.dataMs <= noRefetchMs) return
     }
-    if (key === null || key === undefined || !fetcher) return
-
-    const doQuery = async () => {
-      await query(key, fetcher, {
-        ...config,
-        ...rest,
-        updater: updater as QueryOptions<any>['updater'],
-        dispatch,
-      })
-      if (intervalMs <= 0) return
-
-      // Force this effect to run again after intervalMs; "pseudo-recursive" call means call stack doesn't grow
-      intervalTimeoutIdRef.current = window.setTimeout(() => {
+    if (key === null || key === undefined || !fetcher || waiting) return
+
+    const abortController = new AbortController()
+    const doQuery = async (fetch = true) => {
+      if (fetch) {
+        await query(key, fetcher, {
+          ...config,
+          ...(rest as QueryOptions<any>),
+          updater: updater as QueryOptions<any>['updater'],
+          onEvent: combineEventListeners(config.onEvent, rest.onEvent),
+          dispatch,
+          signal: abortController.signal,
+        })
+      }
+      if (intervalMs <= 0 || abortController.signal.aborted) return
+
+      const refetch = () => {
         if (redefineFetcher) setIntervalId((id) => id + 1)
         else doQuery()
+      }
+      // Force this effect to run again after intervalMs; "pseudo-recursive" call means call stack doesn't grow
+      intervalTimeoutIdRef.current = window.setTimeout(() => {
+        if (inBackground || eventSource.isVisible()) return refetch()
+
+        // Pause polling while page is hidden, and resume it as soon as page is visible
+        const unsubscribe = eventSource.subscribe('visible', () => {
+          unsubscribe()
+          if (!abortController.signal.aborted) refetch()
+        })
+        abortController.signal.addEventListener('abort', unsubscribe)
       }, intervalMs)
     }
 
-    doQuery()
-  }, [key, intervalMs, redefineFetcher, refetchKey, intervalId]) // eslint-disable-line
+    doQuery(!fetchedWhileSuspended)
+    return () => abortController.abort()
+  }, [key, intervalMs, redefineFetcher, refetchKey, intervalId, refetchId, waiting]) // eslint-disable-line
 
   // Also clear interval when component unmounts
   useEffect(() => {
@@ -284,42 +800,177 @@ export function useQuery<K extends StateKey[] = [], D extends {} = any>(
   return queryState
 }
 
+// Resolves once predicate returns true, checking it whenever store's state changes
+function waitForStore(store: Store, predicate: () => boolean) {
+  return new Promise<void>((resolve) => {
+    if (predicate()) return resolve()
+    const unsubscribe = store.subscribe(() => {
+      if (!predicate()) return
+      unsubscribe()
+      resolve()
+    })
+  })
+}
+
+// Selected data doesn't change when only dataMs changes, so component using select shouldn't rerender
+function compareIgnoringDataMs(prev: PartialQueryState<[], {}>, next: PartialQueryState<[], {}>) {
+  return shallowEqual({ ...prev, dataMs: undefined }, { ...next, dataMs: undefined })
+}
+
 /**
  * Hook retrieves query state for key from from Redux, and subscribes to changes in query state. State object includes
  * only data and dataMs properties by default, and subscribes to changes in these properties only, unless additional
  * stateKeys passed.
  *
+ * If schema is passed, data at key is denormalized. Denormalized data is memoized, so changes to entities that aren't
+ * referenced by data don't rerender component; schema should be defined outside of component, so it's the same object
+ * between renders.
+ *
+ * If select is passed, hook returns selected data instead of data at key. Selected data is only recomputed if data at
+ * key or select changes, and parts of it that are deeply equal to previously selected data keep their references, so
+ * inline select functions don't cause rerenders. Unless stateKeys includes isStale, change to dataMs alone doesn't
+ * rerender component either, so component only rerenders when selected data changes.
+ *
  * @param key - Key in query branch
  * @param options - Options object
- * @param options.stateKeys - Additional keys in query state to include in return value (only data and dataMs included
- *  by default)
+ * @param options.stateKeys - Additional keys in query state, or status keys, e.g. isLoading, to include in return value
+ *  (only data and dataMs included by default)
  * @param options.compare - Equality function compares previous query state with next query state; if it returns false,
  *  component rerenders, else it doesn't; uses shallowEqual by default
+ * @param options.cacheTimeMs - Evict query state at key this many ms after last subscriber unmounts (never evicted by
+ *  default)
+ * @param options.cacheMaxEntries - Max number of keys to keep in query branch (no max by default)
+ * @param options.schema - If passed, denormalize data at key with this schema
+ * @param options.staleTimeMs - Data is stale this many ms after it's saved, for isStale status (0 by default)
+ * @param options.select - If passed, this function receives data at key (denormalized if schema is passed), and returns
+ *  data returned by hook, e.g. just one property of data
  *
  * @returns Query state at key, with subset of properties specified by stateKeys
  */
-export function useQueryState<K extends StateKey[] = [], D extends {} = any>(
+export function useQueryState<K extends StateKey[] = [], D extends {} = any, S extends {} = D>(
   key: string | null | undefined,
-  options: QueryStateOptions<K, D> = {},
+  options: QueryStateOptions<K, D, S> = {},
 ) {
   // K before D in useQueryState signature, because K can be inferred, while D can't
-  const { branchName = 'query', compare: configCompare } = useContext(ConfigContext)
+  const config = useContext(ConfigContext)
+  const { compare: configCompare } = config
+  const dispatch = useQueryDispatch()
 
-  return useSelector((state: { query: QueryBranch<D> }) => {
-    const stateKeys = (options.stateKeys || []) as K
-    // Return type picks QueryState properties specified in options.stateKeys, in addition to data and dataMs
-    const partialQueryState = {} as PartialQueryState<K, D>
+  // Mounted component counts as subscriber, so query state at key isn't evicted while component is mounted
+  const cacheTimeMs = options.cacheTimeMs ?? config.cacheTimeMs
+  const cacheMaxEntries = options.cacheMaxEntries ?? config.cacheMaxEntries
+  useEffect(() => {
+    if (!key) return
+    retainKey(dispatch, key, { cacheMaxEntries })
+    return () => releaseKey(dispatch, key, { cacheTimeMs, cacheMaxEntries })
+  }, [dispatch, key]) // eslint-disable-line
+
+  // Each hook has its own memoized denormalizer, which returns same data until entities referenced by data change
+  const [denormalize] = useState(createDenormalizer)
+  const stateKeys = (options.stateKeys || []) as K
+  const staleTimeMs = options.staleTimeMs ?? config.staleTimeMs ?? 0
+  const staleKey = (stateKeys as string[]).includes('isStale')
+
+  // Selected data is memoized per key, and keeps references to unchanged parts of previously selected data
+  const { select } = options
+  const selectedRef = useRef<{ key?: string | null; data?: D; select?: (data: D) => S; selected?: S }>({})
+  const selectData = (data: D) => {
+    if (!select) return data
+    const selected = selectedRef.current
+    if (selected.key === key && selected.data === data && selected.select === select) return selected.selected
+    const newSelected = replaceEqualDeep(selected.key === key ? selected.selected : undefined, select(data))
+    selectedRef.current = { key, data, select, selected: newSelected }
+    return newSelected
+  }
 
-    if (!key) return partialQueryState
-    const queryState = state[branchName as 'query'][key]
+  const partialQueryState = useSelector((state) => {
+    const branch: QueryBranch<D> = selectQueryBranch(state, config)
+    const queryState = key ? branch[key] : undefined
+    // Return type picks QueryState properties and statuses in options.stateKeys, in addition to data and dataMs
+    const partialQueryState = pickStateKeys(queryState, stateKeys, { staleTimeMs }) as PartialQueryState<K, S>
     if (!queryState) return partialQueryState
 
-    partialQueryState.data = queryState.data
-    partialQueryState.dataMs = queryState.dataMs
-    for (const stateKey of stateKeys) {
-      // @ts-ignore
-      partialQueryState[stateKey] = queryState[stateKey]
+    const { schema } = options
+    let data = queryState.data
+    if (schema) {
+      const entities: Entities = branch[ENTITIES_KEY]?.data || {}
+      data = denormalize((queryState.data as { result?: any } | undefined)?.result, schema, entities)
     }
+    partialQueryState.data = (data === undefined ? data : selectData(data)) as S | undefined
+    partialQueryState.dataMs = queryState.dataMs
     return partialQueryState
-  }, options.compare || (configCompare as QueryStateOptions<K, D>['compare']) || shallowEqual)
+  }, options.compare || (configCompare as QueryStateOptions<K, D, S>['compare']) || (select && !staleKey ? compareIgnoringDataMs : shallowEqual))
+
+  // Data doesn't change when it becomes stale, so rerender component when it does
+  const [, setStaleId] = useState(0)
+  const { dataMs } = partialQueryState
+  useEffect(() => {
+    if (!staleKey || typeof dataMs !== 'number') return
+    const staleInMs = dataMs + staleTimeMs - Date.now()
+    // setTimeout fires immediately if delay doesn't fit in 32-bit int
+    if (staleInMs <= 0 || staleInMs > 2 ** 31 - 1) return
+    const timeoutId = setTimeout(() => setStaleId((id) => id + 1), staleInMs)
+    return () => clearTimeout(timeoutId)
+  }, [staleKey, dataMs, staleTimeMs])
+
+  return partialQueryState
+}
+
+/**
+ * Hook subscribes key to data source, e.g. WebSocket or SSE connection, and returns query state at key, like
+ * useQueryState. Subscriptions are ref-counted per key, so hooks with same key share one connection, which is closed
+ * when last hook with key unmounts.
+ *
+ * Emitted data is saved at key, or merged into data at key with updater. Connection state is saved at
+ * queryState.connection; include connection in stateKeys to subscribe to it.
+ *
+ * @param key - Key in query branch; if null or undefined, hook doesn't subscribe
+ * @param subscribe - Function that receives emit function and controls with open, error and close functions, opens
+ *  connection, and returns function that closes it; if null or undefined, hook doesn't subscribe
+ * @param options - Options object
+ * @param options.updater - If passed, this function takes data currently at key, plus emitted data, and returns updated
+ *  data to be saved at key
+ * @param options.structuralSharing - If true, parts of emitted data deeply equal to data at key keep their references
+ *  (true by default)
+ * @param options.bumpDataMs - If false, data at key and dataMs aren't updated if emitted data is deeply equal to data
+ *  at key (true by default)
+ * @param options.stateKeys - Additional keys in query state, or status keys, to include in return value, e.g.
+ *  connection (only data and dataMs included by default)
+ * @param options.compare - Equality function compares previous query state with next query state; if it returns false,
+ *  component rerenders, else it doesn't; uses shallowEqual by default
+ * @param options.select - If passed, this function receives data at key, and returns data returned by hook
+ * @param options.cacheTimeMs - Evict query state at key this many ms after last subscriber unmounts (never evicted by
+ *  default)
+ * @param options.cacheMaxEntries - Max number of keys to keep in query branch (no max by default)
+ *
+ * @returns Query state at key, with subset of properties specified by stateKeys
+ */
+export function useSubscription<K extends StateKey[] = [], D extends {} = any, S extends {} = D>(
+  key: string | null | undefined,
+  subscribe: Subscribe<D> | null | undefined,
+  options: SubscriptionOptions<D> & QueryStateOptions<K, D, S> = {},
+) {
+  const { updater, structuralSharing, bumpDataMs, ...rest } = options
+  const config = useContext(ConfigContext)
+  const dispatch = useQueryDispatch()
+  const queryState = useQueryState<K, D, S>(key, rest)
+
+  // Connection stays open between renders, but always merges emitted data with latest updater
+  const updaterRef = useRef(updater)
+  updaterRef.current = updater
+  const hasUpdater = Boolean(updater)
+  const subscribed = Boolean(subscribe)
+
+  useEffect(() => {
+    if (key === null || key === undefined || !subscribe) return
+    return subscribeKey<D>(dispatch, key, subscribe, {
+      updater: hasUpdater ? (data, newData) => updaterRef.current?.(data, newData) : undefined,
+      structuralSharing: structuralSharing ?? config.structuralSharing,
+      bumpDataMs: bumpDataMs ?? config.bumpDataMs,
+      cacheTimeMs: rest.cacheTimeMs ?? config.cacheTimeMs,
+      cacheMaxEntries: rest.cacheMaxEntries ?? config.cacheMaxEntries,
+    })
+  }, [dispatch, key, subscribed, hasUpdater]) // eslint-disable-line
+
+  return queryState
 }
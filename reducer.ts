@@ -1,5 +1,8 @@
 import { Action, Update } from './actions'
-import { QueryBranch, QueryOptions } from './query'
+import { matchKey } from './keys'
+import { Entities, ENTITIES_KEY, mergeEntities } from './normalize'
+import { QueryBranch, QueryOptions, QueryState } from './query'
+import { shareData } from './share'
 
 /**
  * Reduces state in query branch of Redux state tree depending on action dispatched. Query branch stores query states.
@@ -19,29 +22,36 @@ export default function reduce(state: QueryBranch = {}, action: Action): QueryBr
 
   switch (action.type) {
     case 'REACT_REDUX_QUERY_SAVE_DATA': {
-      const { key, data } = action.payload
+      const { key, options } = action.payload
+      const prevData = state[key]?.data
+      const data = shareData(prevData, action.payload.data, options)
+      // Skip write if data is unchanged and dataMs shouldn't be bumped
+      if (data === prevData && options?.bumpDataMs === false) return state
 
       return {
         ...state,
-        [key]: { ...state[key], data: { ...data }, dataMs },
+        [key]: { ...state[key], data, dataMs },
       }
     }
 
     case 'REACT_REDUX_QUERY_UPDATE_DATA': {
-      const { key, updater, newData } = action.payload as Update<{}> & {
+      const { key, updater, newData, options } = action.payload as Update<{}> & {
         newData: {}
       }
 
-      const data = (updater as NonNullable<QueryOptions<{}>['updater']>)(state[key]?.data, newData)
-      if (data === undefined) return state
-      if (data === null) {
+      const prevData = state[key]?.data
+      const updatedData = (updater as NonNullable<QueryOptions<{}>['updater']>)(prevData, newData)
+      if (updatedData === undefined) return state
+      if (updatedData === null) {
         const { [key]: _, ...rest } = state
         return rest
       }
+      const data = shareData(prevData, updatedData, options)
+      if (data === prevData && options?.bumpDataMs === false) return state
 
       return {
         ...state,
-        [key]: { ...state[key], data: { ...data }, dataMs },
+        [key]: { ...state[key], data, dataMs },
       }
     }
 
@@ -57,12 +67,95 @@ export default function reduce(state: QueryBranch = {}, action: Action): QueryBr
         }
       }
 
+      // Good fetch means data at key is no longer invalidated, and no longer needs to be revalidated after restore
+      if (queryState.goodFetchMonoMs !== undefined && (state[key]?.invalidated || state[key]?.restored)) {
+        queryState = { ...queryState, invalidated: false, restored: false }
+      }
+
+      if (queryState.data !== undefined) {
+        const prevData = state[key]?.data
+        const data = shareData(prevData, queryState.data, options)
+        if (data === prevData && options?.bumpDataMs === false) {
+          let { dataMs, ...state } = queryState
+          queryState = state
+        }
+        queryState = { ...queryState, data }
+      }
+
+      // Skip write if nothing in query state changes
+      const prevQueryState = state[key]
+      const keys = Object.keys(queryState) as (keyof QueryState)[]
+      if (prevQueryState && keys.every((k) => prevQueryState[k] === queryState[k])) {
+        return state
+      }
+
       return {
         ...state,
         [key]: { ...state[key], ...queryState },
       }
     }
 
+    case 'REACT_REDUX_QUERY_EVICT': {
+      const { keys } = action.payload
+      if (!keys.some((key) => state.hasOwnProperty(key))) return state
+
+      const newState = { ...state }
+      for (const key of keys) delete newState[key]
+      return newState
+    }
+
+    case 'REACT_REDUX_QUERY_INVALIDATE': {
+      const { matcher } = action.payload
+      const keys = Object.keys(state).filter((key) => matchKey(matcher, key) && !state[key]?.invalidated)
+      if (!keys.length) return state
+
+      const newState = { ...state }
+      for (const key of keys) newState[key] = { ...state[key], invalidated: true }
+      return newState
+    }
+
+    case 'REACT_REDUX_QUERY_HYDRATE': {
+      const hydrated = action.payload.state
+      const keys = Object.keys(hydrated).filter((key) => {
+        const dataMs = state[key]?.dataMs
+        const hydratedDataMs = hydrated[key]?.dataMs
+        // Don't clobber data at key if it's at least as recent as hydrated data
+        return dataMs === undefined || (hydratedDataMs !== undefined && hydratedDataMs > dataMs)
+      })
+      if (!keys.length) return state
+
+      const newState = { ...state }
+      for (const key of keys) newState[key] = { ...state[key], ...hydrated[key] }
+      return newState
+    }
+
+    case 'REACT_REDUX_QUERY_SAVE_ENTITIES': {
+      const entities: Entities = state[ENTITIES_KEY]?.data || {}
+      const merged = mergeEntities(entities, action.payload.entities)
+      if (merged === entities) return state
+
+      return {
+        ...state,
+        [ENTITIES_KEY]: { ...state[ENTITIES_KEY], data: merged, dataMs },
+      }
+    }
+
+    case 'REACT_REDUX_QUERY_UPDATE_ENTITY': {
+      const { type, id, updater } = action.payload
+      const entities: Entities = state[ENTITIES_KEY]?.data || {}
+
+      const entity = updater(entities[type]?.[id])
+      if (entity === undefined) return state
+      const byId = { ...entities[type] }
+      if (entity === null) delete byId[id]
+      else byId[id] = { ...entity }
+
+      return {
+        ...state,
+        [ENTITIES_KEY]: { ...state[ENTITIES_KEY], data: { ...entities, [type]: byId }, dataMs },
+      }
+    }
+
     default:
       return state
   }
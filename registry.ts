@@ -0,0 +1,55 @@
+import { Dispatch } from 'redux'
+
+import { KeyMatcher, matchKey } from './keys'
+import { getScope } from './scope'
+
+/**
+ * Registers refetch function for active query at key, e.g. for a mounted useQuery hook.
+ *
+ * @param dispatch - Dispatch function of store
+ * @param key - Key in query branch
+ * @param refetch - Function that refetches data at key
+ *
+ * @returns Function that unregisters refetch function
+ */
+export function registerQuery(dispatch: Dispatch, key: string, refetch: () => void) {
+  const activeQueries = getScope(dispatch).activeQueries
+  const refetches = activeQueries.get(key) || new Set()
+  refetches.add(refetch)
+  activeQueries.set(key, refetches)
+
+  return () => {
+    refetches.delete(refetch)
+    if (!refetches.size && activeQueries.get(key) === refetches) activeQueries.delete(key)
+  }
+}
+
+/**
+ * Calls refetch functions of all active queries whose keys match matcher.
+ *
+ * @param dispatch - Dispatch function of store
+ * @param matcher - Key, object with key prefix, or predicate function
+ *
+ * @returns Keys of active queries that were refetched
+ */
+export function refetchQueries(dispatch: Dispatch, matcher: KeyMatcher) {
+  const keys: string[] = []
+  getScope(dispatch).activeQueries.forEach((refetches, key) => {
+    if (!matchKey(matcher, key)) return
+    keys.push(key)
+    refetches.forEach((refetch) => refetch())
+  })
+  return keys
+}
+
+/**
+ * Gets number of active queries for key, e.g. mounted useQuery hooks that can be refetched.
+ *
+ * @param dispatch - Dispatch function of store
+ * @param key - Key in query branch
+ *
+ * @returns Number of active queries
+ */
+export function getActiveQueryCount(dispatch: Dispatch, key: string) {
+  return getScope(dispatch).activeQueries.get(key)?.size || 0
+}
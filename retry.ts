@@ -0,0 +1,68 @@
+export interface RetryOptions {
+  retry?: number
+  retryDelayMs?: (attempt: number, error: {}) => number
+  retryJitter?: number
+  shouldRetry?: (error: {}, attempt: number) => boolean
+}
+
+/**
+ * Default backoff function: waits 1s before first retry, and doubles wait before each subsequent retry, up to 30s.
+ *
+ * @param attempt - Retry attempt, starting from 1
+ *
+ * @returns Delay in ms before retry
+ */
+export function defaultRetryDelayMs(attempt: number) {
+  return Math.min(1000 * 2 ** (attempt - 1), 30 * 1000)
+}
+
+/**
+ * Determines if request should be retried after fetcher throws error.
+ *
+ * @param error - Error thrown by fetcher
+ * @param attempt - Retry attempt, starting from 1
+ * @param options - Retry options
+ *
+ * @returns True if request should be retried
+ */
+export function shouldRetryRequest(error: {}, attempt: number, options: RetryOptions) {
+  const { retry = 0, shouldRetry } = options
+  if (attempt > retry) return false
+  return shouldRetry ? shouldRetry(error, attempt) : true
+}
+
+/**
+ * Computes delay before retry. If retryJitter is passed, delay is randomly reduced by up to this fraction, which keeps
+ * many clients from retrying at the same time.
+ *
+ * @param attempt - Retry attempt, starting from 1
+ * @param error - Error thrown by fetcher
+ * @param options - Retry options
+ * @param random - Function that returns random number between 0 and 1
+ *
+ * @returns Delay in ms before retry
+ */
+export function getRetryDelayMs(attempt: number, error: {}, options: RetryOptions, random = Math.random) {
+  const { retryDelayMs = defaultRetryDelayMs, retryJitter = 0 } = options
+  const delayMs = retryDelayMs(attempt, error)
+  return Math.max(Math.round(delayMs * (1 - Math.min(Math.max(retryJitter, 0), 1) * random())), 0)
+}
+
+/**
+ * Waits for ms, or until signal is aborted.
+ *
+ * @param ms - Time to wait
+ * @param signal - AbortSignal that ends wait early
+ */
+export function wait(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve) => {
+    if (signal?.aborted) return resolve()
+    const done = () => {
+      clearTimeout(timeoutId)
+      signal?.removeEventListener('abort', done)
+      resolve()
+    }
+    const timeoutId = setTimeout(done, ms)
+    signal?.addEventListener('abort', done)
+  })
+}
@@ -0,0 +1,85 @@
+import { Dispatch } from 'redux'
+
+import { CacheEntry } from './cache'
+import { OptimisticState } from './optimistic'
+import { FetchState } from './query'
+import { SubscriptionEntry } from './subscription'
+
+/**
+ * Runtime state that RRQ keeps outside of Redux, e.g. in-flight requests, subscriber counts and eviction timers. It's
+ * scoped per dispatch function, which means per store as long as the store's dispatch function is passed to RRQ
+ * functions, or store has query middleware.
+ */
+export interface Scope {
+  fetchStateByKey: { [key: string]: FetchState | undefined }
+  cacheEntries: Map<string, CacheEntry>
+  optimisticStates: Map<string, OptimisticState>
+  activeQueries: Map<string, Set<() => void>>
+  suspenseRequests: Map<string, { promise: Promise<void>; settled: boolean }>
+  pendingQueries: Set<Promise<void>>
+  subscriptions: Map<string, SubscriptionEntry>
+}
+
+const scopeByDispatch = new WeakMap<Dispatch, Scope>()
+const scopes = new WeakSet<Scope>()
+// Until query middleware is applied to a store, no store can answer GET_SCOPE action, so it isn't dispatched
+let middlewareApplied = false
+
+/**
+ * Action type that query middleware handles by returning scope of its store. Middleware never passes it on, so it
+ * doesn't reach reducers of stores with query middleware.
+ */
+export const GET_SCOPE = 'REACT_REDUX_QUERY_GET_SCOPE'
+
+/**
+ * Creates empty scope.
+ *
+ * @returns Scope object
+ */
+export function createScope(): Scope {
+  const scope = {
+    fetchStateByKey: {},
+    cacheEntries: new Map(),
+    optimisticStates: new Map(),
+    activeQueries: new Map(),
+    suspenseRequests: new Map(),
+    pendingQueries: new Set<Promise<void>>(),
+    subscriptions: new Map(),
+  }
+  scopes.add(scope)
+  return scope
+}
+
+/**
+ * Registers scope owned by query middleware for dispatch function, so getScope finds it without dispatching an action.
+ *
+ * @param dispatch - Dispatch function, e.g. dispatch function returned by middleware
+ * @param scope - Scope owned by middleware
+ */
+export function registerScope(dispatch: Dispatch, scope: Scope) {
+  middlewareApplied = true
+  scopeByDispatch.set(dispatch, scope)
+}
+
+/**
+ * Gets scope for dispatch function, creating it if it doesn't exist. If store has query middleware, middleware owns
+ * scope, so dispatch functions passed to middleware and store's dispatch function share it.
+ *
+ * Scope of dispatch function registered by middleware is found right away, e.g. if query middleware comes first in
+ * applyMiddleware. Otherwise, if query middleware has been applied to any store, GET_SCOPE action is dispatched once per
+ * dispatch function to ask for scope; if store has no query middleware, this action reaches its reducers, which ignore
+ * it, and its subscribers, and it shows up in Redux DevTools.
+ *
+ * @param dispatch - Dispatch function of store
+ *
+ * @returns Scope object
+ */
+export function getScope(dispatch: Dispatch): Scope {
+  let scope = scopeByDispatch.get(dispatch)
+  if (!scope) {
+    const owned: unknown = middlewareApplied ? dispatch({ type: GET_SCOPE }) : undefined
+    scope = scopes.has(owned as Scope) ? (owned as Scope) : createScope()
+    scopeByDispatch.set(dispatch, scope)
+  }
+  return scope
+}
@@ -0,0 +1,59 @@
+export interface ShareOptions {
+  structuralSharing?: boolean
+  bumpDataMs?: boolean
+}
+
+function isPlainObject(value: unknown): value is { [key: string]: unknown } {
+  if (!value || typeof value !== 'object') return false
+  const proto = Object.getPrototypeOf(value)
+  return proto === Object.prototype || proto === null
+}
+
+/**
+ * Returns next value, but reuses every subtree of prev value that's deeply equal to corresponding subtree of next value.
+ * If prev and next are deeply equal, returns prev. Only plain objects and arrays are compared; other values, e.g.
+ * dates, are compared with ===.
+ *
+ * This means unchanged data keeps its references, so components that select it don't rerender.
+ *
+ * @param prev - Previous value
+ * @param next - Next value
+ *
+ * @returns Next value, with unchanged subtrees replaced by subtrees of prev value
+ */
+export function replaceEqualDeep<T>(prev: unknown, next: T): T {
+  if (prev === next) return next
+
+  const isArray = Array.isArray(prev) && Array.isArray(next)
+  if (!isArray && !(isPlainObject(prev) && isPlainObject(next))) return next
+
+  const prevItems = prev as { [key: string]: unknown }
+  const nextItems = (next as unknown) as { [key: string]: unknown }
+  const keys = Object.keys(nextItems)
+  const copy: { [key: string]: unknown } = isArray ? (([] as unknown) as { [key: string]: unknown }) : {}
+
+  let equalItems = 0
+  for (const key of keys) {
+    copy[key] = replaceEqualDeep(prevItems[key], nextItems[key])
+    if (copy[key] === prevItems[key] && prevItems.hasOwnProperty(key)) equalItems += 1
+  }
+
+  return equalItems === keys.length && Object.keys(prevItems).length === keys.length
+    ? (prev as T)
+    : ((copy as unknown) as T)
+}
+
+/**
+ * Computes data to save at key: shallow copy of data, with structural sharing unless it's disabled.
+ *
+ * @param prevData - Data currently at key
+ * @param data - Data to save
+ * @param options - Options object
+ * @param options.structuralSharing - If false, don't reuse unchanged subtrees of data at key (true by default)
+ *
+ * @returns Data to save; this is prevData if data is deeply equal to it and structuralSharing isn't false
+ */
+export function shareData<D extends {}>(prevData: D | undefined, data: D, options: ShareOptions = {}): D {
+  if (options.structuralSharing === false) return { ...data }
+  return replaceEqualDeep(prevData, { ...data })
+}
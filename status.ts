@@ -0,0 +1,95 @@
+import { QueryState } from './query'
+
+export interface QueryStatus {
+  isLoading: boolean
+  isFetching: boolean
+  isError: boolean
+  isStale: boolean
+  isSuccess: boolean
+  isErrorNewer: boolean
+}
+
+export type StatusKey = keyof QueryStatus
+
+const statusKeys: { [key in StatusKey]: true } = {
+  isLoading: true,
+  isFetching: true,
+  isError: true,
+  isStale: true,
+  isSuccess: true,
+  isErrorNewer: true,
+}
+
+/**
+ * Checks if state key is key of computed status, rather than key of query state.
+ *
+ * @param key - State key
+ *
+ * @returns True if key is status key
+ */
+export function isStatusKey(key: string): key is StatusKey {
+  return statusKeys.hasOwnProperty(key)
+}
+
+/**
+ * Computes status of query from query state.
+ *
+ * - isLoading: there's no data, and request is in flight
+ * - isFetching: request is in flight
+ * - isError: there's an error
+ * - isStale: there's no data, data is invalidated, or data is at least staleTimeMs old
+ * - isSuccess: there's data
+ * - isErrorNewer: there's an error, and it was saved after data
+ *
+ * @param queryState - Query state
+ * @param options - Options object
+ * @param options.staleTimeMs - Data is stale this many ms after it's saved (0 by default)
+ * @param options.now - Current time in ms (Date.now() by default)
+ *
+ * @returns Query status
+ */
+export function getQueryStatus(
+  queryState: QueryState | undefined,
+  options: { staleTimeMs?: number; now?: number } = {},
+): QueryStatus {
+  const { staleTimeMs = 0, now = Date.now() } = options
+  const { data, dataMs, error, errorMs, inFlight, invalidated } = queryState || {}
+
+  const isFetching = Boolean(inFlight?.length)
+  const isError = error !== undefined
+  return {
+    isLoading: data === undefined && isFetching,
+    isFetching,
+    isError,
+    isStale: data === undefined || Boolean(invalidated) || typeof dataMs !== 'number' || now - dataMs >= staleTimeMs,
+    isSuccess: data !== undefined,
+    isErrorNewer: isError && (typeof dataMs !== 'number' || (errorMs || 0) >= dataMs),
+  }
+}
+
+/**
+ * Picks values for state keys from query state, computing status values for status keys.
+ *
+ * @param queryState - Query state
+ * @param stateKeys - Keys of query state, or status keys
+ * @param options - Options passed to getQueryStatus
+ *
+ * @returns Object with value for each state key; keys of query state are omitted if there's no query state
+ */
+export function pickStateKeys(
+  queryState: QueryState | undefined,
+  stateKeys: string[],
+  options: { staleTimeMs?: number; now?: number } = {},
+) {
+  const picked: { [key: string]: unknown } = {}
+  let status: QueryStatus | undefined
+  for (const stateKey of stateKeys) {
+    if (isStatusKey(stateKey)) {
+      status = status || getQueryStatus(queryState, options)
+      picked[stateKey] = status[stateKey]
+    } else if (queryState) {
+      picked[stateKey] = queryState[stateKey as keyof QueryState]
+    }
+  }
+  return picked
+}
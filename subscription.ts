@@ -0,0 +1,122 @@
+import { Dispatch } from 'redux'
+
+import { save, update, updateQueryState } from './actions'
+import { CacheOptions, releaseKey, retainKey } from './cache'
+import { QueryOptions } from './query'
+import { getScope } from './scope'
+import { ShareOptions } from './share'
+
+export type ConnectionState = 'connecting' | 'open' | 'error' | 'closed'
+
+export interface SubscriptionControls {
+  open: () => void
+  error: (error: {}) => void
+  close: () => void
+}
+
+export type Subscribe<D> = (emit: (data: D) => void, controls: SubscriptionControls) => () => void
+
+export interface SubscriptionOptions<D> extends CacheOptions, ShareOptions {
+  updater?: QueryOptions<D>['updater']
+}
+
+export interface SubscriptionEntry {
+  subscribers: number
+  unsubscribe: () => void
+}
+
+/**
+ * Subscribes key to data source, e.g. WebSocket or SSE connection. Subscriptions are ref-counted per key: only first
+ * subscriber to key calls subscribe, and other subscribers share its connection, until last subscriber releases it.
+ *
+ * Emitted data is saved at key, or merged into data at key with updater, like response data in query. Connection state
+ * is saved at queryState.connection: connecting until connection is open or data is emitted, error if source reports
+ * error, which is also saved at queryState.error, and closed after source is closed or last subscriber releases it. If
+ * subscribe throws error, it's saved the same way, and next subscriber to key calls subscribe again.
+ *
+ * @param dispatch - Dispatch function of store
+ * @param key - Key in query branch
+ * @param subscribe - Function that receives emit function and controls with open, error and close functions, opens
+ *  connection, and returns function that closes it
+ * @param options - Options object
+ * @param options.updater - If passed, this function takes data currently at key, plus emitted data, and returns updated
+ *  data to be saved at key
+ * @param options.structuralSharing - If true, parts of emitted data deeply equal to data at key keep their references
+ *  (true by default)
+ * @param options.bumpDataMs - If false, data at key and dataMs aren't updated if emitted data is deeply equal to data
+ *  at key (true by default)
+ * @param options.cacheTimeMs - Evict query state at key this many ms after subscription is closed (never evicted by
+ *  default)
+ * @param options.cacheMaxEntries - Max number of keys to keep in query branch (no max by default)
+ *
+ * @returns Function that releases subscription; connection is closed when last subscriber releases it
+ */
+export function subscribeKey<D extends {} = any>(
+  dispatch: Dispatch,
+  key: string,
+  subscribe: Subscribe<D>,
+  options: SubscriptionOptions<D> = {},
+) {
+  const { updater, structuralSharing, bumpDataMs, cacheTimeMs, cacheMaxEntries } = options
+  const { subscriptions } = getScope(dispatch)
+
+  let entry = subscriptions.get(key)
+  if (!entry) {
+    const newEntry: SubscriptionEntry = { subscribers: 0, unsubscribe: () => {} }
+    entry = newEntry
+    subscriptions.set(key, newEntry)
+    // Subscription counts as subscriber, so query state at key isn't evicted while connection is open
+    retainKey(dispatch, key, { cacheMaxEntries })
+
+    // Source can't update query state after it's been closed
+    const active = () => subscriptions.get(key) === newEntry
+    const setConnection = (connection: ConnectionState) => {
+      if (active()) dispatch(updateQueryState({ key, state: { connection } }))
+    }
+    const shareOptions = { structuralSharing, bumpDataMs }
+    const emit = (data: D) => {
+      if (!active()) return
+      setConnection('open')
+      if (updater) {
+        // @ts-ignore; newData property is internal, like in query
+        dispatch(update({ key, updater, newData: data, options: shareOptions }))
+      } else {
+        dispatch(save({ key, data, options: shareOptions }))
+      }
+    }
+
+    const setError = (error: {}) => {
+      if (active()) dispatch(updateQueryState({ key, state: { connection: 'error', error, errorMs: Date.now() } }))
+    }
+
+    setConnection('connecting')
+    try {
+      newEntry.unsubscribe = subscribe(emit, {
+        open: () => setConnection('open'),
+        error: setError,
+        close: () => setConnection('closed'),
+      })
+    } catch (e) {
+      // Next subscriber to key connects again, instead of sharing connection that was never opened
+      setError(e || {})
+      subscriptions.delete(key)
+      releaseKey(dispatch, key, { cacheTimeMs, cacheMaxEntries })
+      return () => {}
+    }
+  }
+  const subscription = entry
+  subscription.subscribers += 1
+
+  let released = false
+  return () => {
+    if (released || subscriptions.get(key) !== subscription) return
+    released = true
+    subscription.subscribers -= 1
+    if (subscription.subscribers > 0) return
+
+    dispatch(updateQueryState({ key, state: { connection: 'closed' } }))
+    subscriptions.delete(key)
+    subscription.unsubscribe()
+    releaseKey(dispatch, key, { cacheTimeMs, cacheMaxEntries })
+  }
+}
@@ -1,10 +1,56 @@
 /**
- * This module tests pure JS functions that don't depend on React or Redux.
+ * This module tests functions, reducers and actions, with test stores where they need Redux. Hooks aren't rendered, so
+ * they're not tested here.
  */
 import test from 'ava'
+import { AnyAction, combineReducers, createStore as createReduxStore, Dispatch, Middleware } from 'redux'
 
-import { save, update } from './actions'
+import { Action, evict, hydrate, invalidate, save, saveEntities, update, updateEntity } from './actions'
+import { createBatcher } from './batching'
+import { getSubscriberCount, releaseKey, retainKey, trackKeys } from './cache'
+import { defineQuery } from './definition'
+import { createFakeEventSource, getWindowEventSource } from './events'
+import { dehydrate } from './hydration'
+import { getNextPageParam, queryInfinite } from './infinite'
+import { createKey, matchKey, stableStringify } from './keys'
+import { combineEventListeners, QueryEventType } from './lifecycle'
+import { createDenormalizer, denormalize, entity, ENTITIES_KEY, normalize } from './normalize'
+import { createQueryMiddleware } from './middleware'
+import { createQueryReducer, getNamespacedDispatch, namespaceAction, selectQueryBranch } from './namespace'
+import { mutate } from './mutation'
+import { createMutationQueue } from './offline'
+import { createMemoryStorage, persistQueryBranch } from './persist'
+import { applyOptimisticUpdates, commitOptimisticUpdates, rollbackOptimisticUpdates } from './optimistic'
+import { cancel, query, QueryBranch } from './query'
 import reduce from './reducer'
+import { refetchQueries, registerQuery } from './registry'
+import { getQueryStatus, pickStateKeys } from './status'
+import { defaultRetryDelayMs, getRetryDelayMs, shouldRetryRequest, wait } from './retry'
+import { createScope, GET_SCOPE, getScope } from './scope'
+import { replaceEqualDeep } from './share'
+import { subscribeKey } from './subscription'
+import { createMockFetchers, createTestStore } from './testing'
+
+function createDispatch() {
+  const actions: AnyAction[] = []
+  const dispatch: Dispatch = (action) => {
+    // Ignore action that gets scope from query middleware, if store has one
+    if (action.type !== GET_SCOPE) actions.push(action)
+    return action
+  }
+  return { actions, dispatch }
+}
+
+function createStore(state: QueryBranch) {
+  const store = {
+    state,
+    dispatch: ((action: Action) => {
+      store.state = reduce(store.state, action)
+      return action
+    }) as Dispatch,
+  }
+  return store
+}
 
 test('save reducer', async (t) => {
   const newState = reduce(
@@ -50,3 +96,1096 @@ test('update reducer', async (t) => {
   newState = reduce(state, update({ key: 'res', updater: () => null }))
   t.deepEqual(newState, {})
 })
+
+test('evict reducer', async (t) => {
+  const state = { a: { data: {} }, b: { data: {} } }
+
+  t.deepEqual(reduce(state, evict({ keys: ['a', 'c'] })), { b: { data: {} } })
+  t.is(reduce(state, evict({ keys: ['c'] })), state)
+})
+
+test('release key evicts after cacheTimeMs', async (t) => {
+  const { actions, dispatch } = createDispatch()
+
+  retainKey(dispatch, 'a')
+  retainKey(dispatch, 'a')
+  releaseKey(dispatch, 'a', { cacheTimeMs: 10 })
+  t.is(getSubscriberCount(dispatch, 'a'), 1)
+
+  releaseKey(dispatch, 'a', { cacheTimeMs: 10 })
+  t.is(actions.length, 0)
+  await new Promise((resolve) => setTimeout(resolve, 20))
+  t.deepEqual(actions, [evict({ keys: ['a'] })])
+
+  // Retaining key before timeout fires cancels eviction
+  releaseKey(dispatch, 'a', { cacheTimeMs: 10 })
+  retainKey(dispatch, 'b')
+  releaseKey(dispatch, 'b', { cacheTimeMs: 10 })
+  retainKey(dispatch, 'b')
+  await new Promise((resolve) => setTimeout(resolve, 20))
+  t.is(actions.length, 1)
+
+  // Releasing key without cacheTimeMs, e.g. after query that doesn't pass it, uses last cacheTimeMs passed for key
+  retainKey(dispatch, 'c')
+  releaseKey(dispatch, 'c', { cacheTimeMs: 10 })
+  retainKey(dispatch, 'c')
+  releaseKey(dispatch, 'c')
+  await new Promise((resolve) => setTimeout(resolve, 50))
+  t.deepEqual(actions.slice(1), [evict({ keys: ['c'] })])
+})
+
+test('keys written without subscribers are tracked for eviction', async (t) => {
+  const { actions, dispatch } = createDispatch()
+  trackKeys(dispatch, ['a', ENTITIES_KEY], { cacheTimeMs: 10 })
+  retainKey(dispatch, 'a')
+  trackKeys(dispatch, ['a', 'b'], { cacheTimeMs: 10 })
+  await new Promise((resolve) => setTimeout(resolve, 50))
+  t.deepEqual(actions, [evict({ keys: ['b'] })])
+
+  // Writing key again restarts its eviction timer
+  trackKeys(dispatch, ['c'], { cacheTimeMs: 100 })
+  await new Promise((resolve) => setTimeout(resolve, 60))
+  trackKeys(dispatch, ['c'])
+  await new Promise((resolve) => setTimeout(resolve, 60))
+  t.is(actions.length, 1)
+  await new Promise((resolve) => setTimeout(resolve, 100))
+  t.deepEqual(actions.slice(1), [evict({ keys: ['c'] })])
+
+  // Middleware tracks keys written by save and hydrate actions
+  const { dispatch: storeDispatch, getBranch } = createTestStore({
+    middleware: [createQueryMiddleware({ cacheTimeMs: 10 })],
+  })
+  storeDispatch(save({ key: 'saved', data: {} }))
+  storeDispatch(hydrate({ state: { hydrated: { data: {}, dataMs: 1 } } }))
+  t.deepEqual(Object.keys(getBranch()), ['saved', 'hydrated'])
+  await new Promise((resolve) => setTimeout(resolve, 50))
+  t.deepEqual(getBranch(), {})
+
+  // Persisted keys are tracked when they're restored
+  const storage = createMemoryStorage()
+  storage.setItem('react-redux-query', JSON.stringify({ version: 0, state: { restored: { data: {}, dataMs: 1 } } }))
+  const { store, getBranch: getRestoredBranch } = createTestStore()
+  await persistQueryBranch(store, { storage, cacheTimeMs: 10 }).restored
+  t.truthy(getRestoredBranch().restored)
+  await new Promise((resolve) => setTimeout(resolve, 50))
+  t.deepEqual(getRestoredBranch(), {})
+})
+
+test('cacheMaxEntries evicts least recently used keys without subscribers', async (t) => {
+  const { actions, dispatch } = createDispatch()
+
+  retainKey(dispatch, 'a')
+  retainKey(dispatch, 'b')
+  releaseKey(dispatch, 'b')
+  retainKey(dispatch, 'c')
+  releaseKey(dispatch, 'c')
+  retainKey(dispatch, 'd', { cacheMaxEntries: 2 })
+
+  // a still has a subscriber, so b and c are evicted
+  t.deepEqual(actions, [evict({ keys: ['b', 'c'] })])
+})
+
+test('rolling back optimistic update keeps other pending updates', async (t) => {
+  const store = createStore({ list: { data: { items: ['a'] } } })
+  const append = (item: string) => ({
+    key: 'list',
+    updater: (data: { items: string[] } | undefined) => ({ items: [...(data?.items || []), item] }),
+  })
+
+  const first = applyOptimisticUpdates(store.dispatch, [append('b')])
+  const second = applyOptimisticUpdates(store.dispatch, [append('c')])
+  t.deepEqual(store.state.list?.data, { items: ['a', 'b', 'c'] })
+
+  rollbackOptimisticUpdates(store.dispatch, first)
+  t.deepEqual(store.state.list?.data, { items: ['a', 'c'] })
+
+  const third = applyOptimisticUpdates(store.dispatch, [append('d')])
+  commitOptimisticUpdates(store.dispatch, third)
+  rollbackOptimisticUpdates(store.dispatch, second)
+  t.deepEqual(store.state.list?.data, { items: ['a', 'd'] })
+})
+
+test('rolling back optimistic update restores missing data', async (t) => {
+  const store = createStore({})
+
+  const id = applyOptimisticUpdates(store.dispatch, [{ key: 'user', updater: () => ({ name: 'kyle' }) }])
+  t.deepEqual(store.state.user?.data, { name: 'kyle' })
+
+  rollbackOptimisticUpdates(store.dispatch, id)
+  t.is(store.state.user?.data, undefined)
+})
+
+test('replayed optimistic update is recorded once, and rollback keeps data saved by fetch', async (t) => {
+  const { dispatch, getBranch, settled } = createTestStore({ preloadedState: { list: { data: { items: ['a'] } } } })
+  const actions: Action[] = []
+  const recordingDispatch = ((action: Action) => {
+    actions.push(action)
+    return dispatch(action)
+  }) as Dispatch
+  const append = (item: string) => ({
+    key: 'list',
+    updater: (data: { items: string[] } | undefined) => ({ items: [...(data?.items || []), item] }),
+  })
+
+  const id = applyOptimisticUpdates(recordingDispatch, [append('b')])
+  // Replay update action, like Redux DevTools does
+  actions.forEach((action) => reduce(getBranch(), action))
+  t.is(getScope(recordingDispatch).optimisticStates.get('list')?.pending.length, 1)
+
+  const fetchers = createMockFetchers()
+  fetchers.respond('list', { queryData: { items: ['a', 'z'] } })
+  await query('list', fetchers.fetcher('list'), { dispatch: recordingDispatch })
+  await settled()
+  t.deepEqual(getBranch().list?.data, { items: ['a', 'z', 'b'] })
+
+  rollbackOptimisticUpdates(recordingDispatch, id)
+  t.deepEqual(getBranch().list?.data, { items: ['a', 'z'] })
+})
+
+test('matchKey', async (t) => {
+  t.true(matchKey('users/1', 'users/1'))
+  t.false(matchKey('users/1', 'users/10'))
+  t.true(matchKey({ prefix: 'users/' }, 'users/10'))
+  t.false(matchKey({ prefix: 'users/' }, 'user'))
+  t.true(matchKey((key) => key.endsWith('/1'), 'users/1'))
+})
+
+test('invalidate reducer', async (t) => {
+  const state = { 'users/1': { data: {} }, 'users/2': { data: {}, invalidated: true }, posts: { data: {} } }
+
+  const newState = reduce(state, invalidate({ prefix: 'users/' }))
+  t.deepEqual(newState, {
+    'users/1': { data: {}, invalidated: true },
+    'users/2': { data: {}, invalidated: true },
+    posts: { data: {} },
+  })
+  t.is(newState['users/2'], state['users/2'])
+  t.is(reduce(state, invalidate('comments')), state)
+})
+
+test('refetchQueries calls refetch functions of matching active queries', async (t) => {
+  const { dispatch } = createDispatch()
+  const refetched: string[] = []
+
+  registerQuery(dispatch, 'users/1', () => refetched.push('a'))
+  const unregister = registerQuery(dispatch, 'users/1', () => refetched.push('b'))
+  registerQuery(dispatch, 'posts', () => refetched.push('c'))
+  unregister()
+
+  t.deepEqual(refetchQueries(dispatch, { prefix: 'users/' }), ['users/1'])
+  t.deepEqual(refetched, ['a'])
+})
+
+test('retry backoff and jitter', async (t) => {
+  t.deepEqual([1, 2, 3, 6, 10].map(defaultRetryDelayMs), [1000, 2000, 4000, 30000, 30000])
+
+  t.is(getRetryDelayMs(2, {}, { retryDelayMs: (attempt) => attempt * 100 }), 200)
+  t.is(
+    getRetryDelayMs(1, {}, { retryJitter: 0.5 }, () => 1),
+    500,
+  )
+  t.is(
+    getRetryDelayMs(1, {}, { retryJitter: 0.5 }, () => 0),
+    1000,
+  )
+})
+
+test('shouldRetryRequest', async (t) => {
+  t.false(shouldRetryRequest({}, 1, {}))
+  t.true(shouldRetryRequest({}, 2, { retry: 2 }))
+  t.false(shouldRetryRequest({}, 3, { retry: 2 }))
+  t.false(
+    shouldRetryRequest({ status: 404 }, 1, { retry: 2, shouldRetry: (e: { status?: number }) => e.status !== 404 }),
+  )
+})
+
+test('wait ends early when signal is aborted', async (t) => {
+  const abortController = new AbortController()
+  const start = Date.now()
+  setTimeout(() => abortController.abort(), 10)
+
+  await wait(10 * 1000, abortController.signal)
+  t.true(Date.now() - start < 1000)
+})
+
+test('dehydrate drops in-flight requests and errors, and converts monotonic time', async (t) => {
+  const goodFetchMonoMs = performance.now() - 1000
+  const dehydrated = dehydrate({
+    a: { data: { a: 1 }, dataMs: 10, goodFetchMonoMs, inFlight: [], connection: 'open', error: {}, errorMs: 10 },
+    b: { data: { b: 1 }, dataMs: 10 },
+  })
+
+  t.deepEqual(Object.keys(dehydrated.a || {}).sort(), ['data', 'dataMs', 'goodFetchMs'])
+  t.true(Math.abs((dehydrated.a?.goodFetchMs || 0) - (Date.now() - 1000)) < 100)
+  t.deepEqual(dehydrate({ a: { error: {}, errorMs: 10 } }, { includeErrors: true }), { a: { error: {}, errorMs: 10 } })
+  t.deepEqual(Object.keys(dehydrate({ a: {}, b: {} }, { filter: (key) => key === 'b' })), ['b'])
+})
+
+test('hydrate reducer keeps newer client data', async (t) => {
+  const state = { a: { data: { client: true }, dataMs: 20 }, b: { data: { client: true }, dataMs: 5, inFlight: [] } }
+  const dehydrated = {
+    a: { data: { client: false }, dataMs: 10 },
+    b: { data: { client: false }, dataMs: 10, goodFetchMs: Date.now() },
+    c: { data: { client: false }, dataMs: 10 },
+  }
+
+  const newState = reduce(state, hydrate({ state: dehydrated }))
+  t.is(newState.a, state.a)
+  t.deepEqual(newState.b?.data, { client: false })
+  t.deepEqual(newState.b?.inFlight, [])
+  t.is(typeof newState.b?.goodFetchMonoMs, 'number')
+  t.false('goodFetchMs' in (newState.b || {}))
+  t.deepEqual(newState.c, { data: { client: false }, dataMs: 10 })
+})
+
+test('persist query branch, and restore it with restored flag', async (t) => {
+  const storage = createMemoryStorage()
+  const store = createReduxStore(combineReducers({ query: reduce }))
+  const persistor = persistQueryBranch(store, { storage, exclude: { prefix: 'secret' }, throttleMs: 10 })
+  await persistor.restored
+
+  store.dispatch(save({ key: 'user', data: { name: 'kyle' } }))
+  store.dispatch(save({ key: 'secret/token', data: {} }))
+  await new Promise((resolve) => setTimeout(resolve, 20))
+  persistor.stop()
+
+  const restoredStore = createReduxStore(combineReducers({ query: reduce }))
+  await persistQueryBranch(restoredStore, { storage }).restored
+  const { query } = restoredStore.getState()
+  t.deepEqual(Object.keys(query), ['user'])
+  t.deepEqual(query.user?.data, { name: 'kyle' })
+  t.true(query.user?.restored)
+
+  // Query states with old data aren't restored, and persisted branch with old version is discarded
+  const prunedStore = createReduxStore(combineReducers({ query: reduce }))
+  await persistQueryBranch(prunedStore, { storage, maxAgeMs: -1 }).restored
+  t.deepEqual(prunedStore.getState().query, {})
+
+  const migratedStore = createReduxStore(combineReducers({ query: reduce }))
+  await persistQueryBranch(migratedStore, { storage, version: 1 }).restored
+  t.deepEqual(migratedStore.getState().query, {})
+  t.is(await storage.getItem('react-redux-query'), undefined)
+})
+
+test('persist reports storage errors with onError', async (t) => {
+  const errors: {}[] = []
+  const storage = {
+    getItem: async () => {
+      throw new Error('blocked')
+    },
+    setItem: async () => {
+      throw new Error('quota exceeded')
+    },
+    removeItem: () => {},
+  }
+  const store = createReduxStore(combineReducers({ query: reduce }))
+  const persistor = persistQueryBranch(store, { storage, throttleMs: 0, onError: (e) => errors.push(e) })
+  await persistor.restored
+  t.deepEqual(errors, [new Error('blocked')])
+
+  store.dispatch(save({ key: 'user', data: { name: 'kyle' } }))
+  await new Promise((resolve) => setTimeout(resolve, 50))
+  t.deepEqual(errors, [new Error('blocked'), new Error('quota exceeded')])
+  await t.throwsAsync(persistor.flush(), { message: 'quota exceeded' })
+  persistor.stop()
+})
+
+test('normalize and denormalize', async (t) => {
+  const user = entity('users')
+  const post = entity('posts', { author: user })
+  user.relations.posts = [post]
+
+  const data = [
+    { id: 1, title: 'a', author: { id: 42, name: 'kyle' } },
+    { id: 2, title: 'b', author: { id: 42, name: 'kyle' } },
+  ]
+  const { result, entities } = normalize(data, [post])
+  t.deepEqual(result, [1, 2])
+  t.deepEqual(entities, {
+    posts: { 1: { id: 1, title: 'a', author: 42 }, 2: { id: 2, title: 'b', author: 42 } },
+    users: { 42: { id: 42, name: 'kyle' } },
+  })
+
+  const denormalized = denormalize(result, [post], entities)
+  t.deepEqual(denormalized, data)
+  // Same entity is denormalized once per call
+  t.is(denormalized[0].author, denormalized[1].author)
+
+  // Entities that reference each other
+  const withPosts = denormalize(42, user, { ...entities, users: { 42: { id: 42, name: 'kyle', posts: [1] } } })
+  t.is(withPosts.posts[0].author, withPosts)
+})
+
+test('denormalizer returns same data if referenced entities are unchanged', async (t) => {
+  const user = entity('users')
+  const schema = { users: [user] }
+  const denormalize = createDenormalizer()
+
+  const entities = { users: { 1: { id: 1 } }, posts: { 1: { id: 1 } } }
+  const result = { users: [1] }
+  const data = denormalize(result, schema, entities)
+
+  t.is(denormalize(result, schema, { ...entities, posts: {} }), data)
+  t.not(denormalize(result, schema, { ...entities, users: { 1: { id: 1, name: 'kyle' } } }), data)
+})
+
+test('entity reducers', async (t) => {
+  const store = createStore({})
+  store.dispatch(saveEntities({ entities: { users: { 1: { id: 1, name: 'kyle' }, 2: { id: 2 } } } }))
+  const state = store.state
+
+  store.dispatch(saveEntities({ entities: { users: { 1: { id: 1, name: 'kyle' } } } }))
+  t.is(store.state, state)
+
+  store.dispatch(saveEntities({ entities: { users: { 1: { id: 1, age: 30 } } } }))
+  t.deepEqual(store.state[ENTITIES_KEY]?.data.users[1], { id: 1, name: 'kyle', age: 30 })
+  t.is(store.state[ENTITIES_KEY]?.data.users[2], state[ENTITIES_KEY]?.data.users[2])
+
+  store.dispatch(updateEntity({ type: 'users', id: 1, updater: (user) => ({ ...user, name: 'bebak' }) }))
+  t.is(store.state[ENTITIES_KEY]?.data.users[1].name, 'bebak')
+
+  store.dispatch(updateEntity({ type: 'users', id: 2, updater: () => null }))
+  t.deepEqual(Object.keys(store.state[ENTITIES_KEY]?.data.users), ['1'])
+})
+
+test('getScope uses scope owned by middleware', async (t) => {
+  // Store's dispatch function is registered by middleware that comes first, so no action is dispatched to get scope
+  const actions: AnyAction[] = []
+  const logger: Middleware = () => (next) => (action) => {
+    actions.push(action)
+    return next(action)
+  }
+  const first = createTestStore({ middleware: [createQueryMiddleware({ cacheTimeMs: 1000 }), logger] })
+  first.store.dispatch(save({ key: 'saved', data: {} }))
+  t.true(getScope(first.store.dispatch).cacheEntries.has('saved'))
+  t.deepEqual(
+    actions.map(({ type }) => type),
+    ['REACT_REDUX_QUERY_SAVE_DATA'],
+  )
+  first.reset()
+
+  // Otherwise, middleware answers action, so it never reaches reducers
+  const reduced: string[] = []
+  const last = createTestStore({ middleware: [logger, createQueryMiddleware({ cacheTimeMs: 1000 })] })
+  last.store.replaceReducer((state: any, action: AnyAction) => {
+    reduced.push(action.type)
+    return state
+  })
+  last.store.dispatch(save({ key: 'saved', data: {} }))
+  t.true(getScope(last.store.dispatch).cacheEntries.has('saved'))
+  t.false(reduced.includes(GET_SCOPE))
+  last.reset()
+
+  const scope = createScope()
+  const dispatch = ((action: AnyAction) => (action.type === GET_SCOPE ? scope : action)) as Dispatch
+  t.is(getScope(dispatch), scope)
+  t.not(getScope(createDispatch().dispatch), scope)
+})
+
+test('fake event source', async (t) => {
+  const eventSource = createFakeEventSource({ visible: false })
+  const events: string[] = []
+  const unsubscribe = eventSource.subscribe('focus', () => events.push('focus'))
+  eventSource.subscribe('visible', () => events.push('visible'))
+  eventSource.subscribe('reconnect', () => events.push('reconnect'))
+
+  eventSource.emit('focus')
+  unsubscribe()
+  eventSource.emit('focus')
+  eventSource.setVisible(true)
+  eventSource.setVisible(true)
+  eventSource.setOnline(false)
+  eventSource.setOnline(true)
+
+  t.deepEqual(events, ['focus', 'visible', 'reconnect'])
+  t.true(eventSource.isVisible())
+})
+
+test('window event source outside of browser', async (t) => {
+  const eventSource = getWindowEventSource()
+  t.true(eventSource.isVisible())
+  t.true(eventSource.isOnline())
+  t.notThrows(eventSource.subscribe('focus', () => {}))
+})
+
+test('stableStringify and createKey', async (t) => {
+  t.is(stableStringify({ b: [1, undefined], a: { d: 'x', c: undefined } }), '{"a":{"d":"x"},"b":[1,null]}')
+  t.is(stableStringify({ a: 1, b: 2 }), stableStringify({ b: 2, a: 1 }))
+  t.is(stableStringify(undefined), 'null')
+
+  t.is(createKey('user'), 'user')
+  t.is(createKey('user', 42), 'user/42')
+  t.is(createKey('users', { sort: 'name', page: 2 }), 'users/{"page":2,"sort":"name"}')
+})
+
+test('query definition matches keys recently returned by key function', async (t) => {
+  const byName = defineQuery({ key: 'user', fetcher: async (id: number) => ({ id }) })
+  const byFunction = defineQuery({
+    key: (id: number) => `account-${id}`,
+    fetcher: async (id: number) => ({ id }),
+    maxMatchedKeys: 2,
+  })
+
+  t.is(byName.key(1), 'user/1')
+  t.true(matchKey(byName.matcher(), 'user/2'))
+
+  t.is(byFunction.key(1), 'account-1')
+  t.true(matchKey(byFunction.matcher(), 'account-1'))
+  t.false(matchKey(byFunction.matcher(), 'account-2'))
+
+  byFunction.key(2)
+  byFunction.key(1)
+  byFunction.key(3)
+  t.deepEqual(
+    ['account-1', 'account-2', 'account-3'].filter((key) => matchKey(byFunction.matcher(), key)),
+    ['account-1', 'account-3'],
+  )
+})
+
+test('query status', async (t) => {
+  t.deepEqual(getQueryStatus(undefined), {
+    isLoading: false,
+    isFetching: false,
+    isError: false,
+    isStale: true,
+    isSuccess: false,
+    isErrorNewer: false,
+  })
+  t.deepEqual(getQueryStatus({ inFlight: [{ id: '1-0', fetchMonoMs: 1 }] }), {
+    isLoading: true,
+    isFetching: true,
+    isError: false,
+    isStale: true,
+    isSuccess: false,
+    isErrorNewer: false,
+  })
+
+  const queryState = { data: {}, dataMs: 1000, error: {}, errorMs: 500 }
+  t.like(getQueryStatus(queryState, { staleTimeMs: 100, now: 1050 }), {
+    isSuccess: true,
+    isError: true,
+    isErrorNewer: false,
+    isStale: false,
+  })
+  t.true(getQueryStatus(queryState, { staleTimeMs: 100, now: 1100 }).isStale)
+  t.true(getQueryStatus({ ...queryState, invalidated: true }, { staleTimeMs: 100, now: 1050 }).isStale)
+  t.true(getQueryStatus({ ...queryState, errorMs: 2000 }).isErrorNewer)
+
+  t.deepEqual(pickStateKeys(queryState, ['errorMs', 'isSuccess']), { errorMs: 500, isSuccess: true })
+  t.deepEqual(pickStateKeys(undefined, ['errorMs', 'isSuccess']), { isSuccess: false })
+})
+
+test('replaceEqualDeep reuses unchanged subtrees', async (t) => {
+  const prev = {
+    users: [
+      { id: 1, name: 'a' },
+      { id: 2, name: 'b' },
+    ],
+    meta: { page: 1 },
+    date: new Date(0),
+  }
+
+  t.is(replaceEqualDeep(prev, { ...prev, meta: { page: 1 }, date: new Date(1) }).meta, prev.meta)
+  t.is(replaceEqualDeep(prev, { ...prev, users: [...prev.users], meta: { page: 1 } }), prev)
+
+  const next = replaceEqualDeep(prev, {
+    ...prev,
+    users: [
+      { id: 1, name: 'a' },
+      { id: 2, name: 'c' },
+    ],
+  })
+  t.not(next, prev)
+  t.not(next.users, prev.users)
+  t.is(next.users[0], prev.users[0])
+  t.is(next.users[1]?.name, 'c')
+  t.is(next.meta, prev.meta)
+
+  t.deepEqual(replaceEqualDeep({ a: 1, b: 2 }, { a: 1 }), { a: 1 })
+  t.deepEqual(replaceEqualDeep([1, 2], [1]), [1])
+  t.deepEqual(replaceEqualDeep(prev.date, new Date(0)), new Date(0))
+})
+
+test('save reducer shares unchanged data, and skips write if dataMs not bumped', async (t) => {
+  const state = reduce({}, save({ key: 'res', data: { items: [{ id: 1 }], page: 1 } }))
+
+  let newState = reduce(state, save({ key: 'res', data: { items: [{ id: 1 }], page: 2 } }))
+  t.is(newState.res?.data.items, state.res?.data.items)
+  t.is(newState.res?.data.page, 2)
+
+  newState = reduce(state, save({ key: 'res', data: { items: [{ id: 1 }], page: 1 } }))
+  t.not(newState, state)
+  t.is(newState.res?.data, state.res?.data)
+
+  newState = reduce(state, save({ key: 'res', data: { items: [{ id: 1 }], page: 1 }, options: { bumpDataMs: false } }))
+  t.is(newState, state)
+
+  const data = { items: [{ id: 1 }], page: 1 }
+  newState = reduce(state, save({ key: 'res', data, options: { structuralSharing: false, bumpDataMs: false } }))
+  t.not(newState.res?.data.items, state.res?.data.items)
+
+  newState = reduce(state, {
+    type: 'REACT_REDUX_QUERY_UPDATE_QUERY_STATE',
+    payload: {
+      key: 'res',
+      state: { data: { items: [{ id: 1 }], page: 1 }, dataMs: 1 },
+      options: { bumpDataMs: false },
+    },
+  })
+  t.is(newState, state)
+})
+
+test('namespaced reducers and dispatch functions', async (t) => {
+  t.is(namespaceAction(save({ key: 'a', data: {} }), 'app').type, 'app/SAVE_DATA')
+  t.is(namespaceAction(save({ key: 'a', data: {} })).type, 'REACT_REDUX_QUERY_SAVE_DATA')
+  t.deepEqual(namespaceAction({ type: 'OTHER' }, 'app'), { type: 'OTHER' })
+
+  const store = createReduxStore(
+    combineReducers({
+      query: createQueryReducer(),
+      feature: combineReducers({ query: createQueryReducer({ namespace: 'feature' }) }),
+    }),
+  )
+  const dispatch = getNamespacedDispatch(store.dispatch, 'feature')
+  t.is(getNamespacedDispatch(store.dispatch, 'feature'), dispatch)
+  t.is(getNamespacedDispatch(store.dispatch), store.dispatch)
+  t.not(getScope(dispatch), getScope(store.dispatch))
+
+  dispatch(save({ key: 'a', data: { feature: true } }))
+  store.dispatch(save({ key: 'a', data: { feature: false } }))
+  const getBranch = (state: any) => state.feature.query
+  t.deepEqual(selectQueryBranch(store.getState(), { getBranch }).a?.data, { feature: true })
+  t.deepEqual(selectQueryBranch(store.getState()).a?.data, { feature: false })
+  t.deepEqual(selectQueryBranch({}), {})
+})
+
+test('persist namespaced query branch', async (t) => {
+  const storage = createMemoryStorage()
+  const getBranch = (state: any) => state.feature
+  const options = { storage, getBranch, namespace: 'feature', throttleMs: 10 }
+  const store = createReduxStore(combineReducers({ feature: createQueryReducer({ namespace: 'feature' }) }))
+  const persistor = persistQueryBranch(store, options)
+  await persistor.restored
+
+  getNamespacedDispatch(store.dispatch, 'feature')(save({ key: 'user', data: { name: 'kyle' } }))
+  await persistor.flush()
+  persistor.stop()
+
+  const restoredStore = createReduxStore(combineReducers({ feature: createQueryReducer({ namespace: 'feature' }) }))
+  await persistQueryBranch(restoredStore, options).restored
+  t.deepEqual(restoredStore.getState().feature.user?.data, { name: 'kyle' })
+})
+
+test('test store settles pending queries, and resets scope', async (t) => {
+  const { store, dispatch, getBranch, settled, reset } = createTestStore({
+    preloadedState: { user: { data: { name: 'kyle' } } },
+    namespace: 'test',
+  })
+  t.deepEqual(getBranch().user?.data, { name: 'kyle' })
+  dispatch(save({ key: 'user', data: { name: 'bob' } }))
+  t.deepEqual(getBranch().user?.data, { name: 'bob' })
+  t.not(store.dispatch, dispatch)
+
+  const fetchers = createMockFetchers()
+  fetchers.respond('user', { queryData: { name: 'sue' } }, { delayMs: 10 })
+  query('user', fetchers.fetcher('user'), { dispatch })
+  await settled()
+  t.deepEqual(getBranch().user?.data, { name: 'sue' })
+
+  const scope = getScope(dispatch)
+
+  const abortController = new AbortController()
+  scope.fetchStateByKey.user = {
+    fetchMonoMs: 0,
+    requestId: '0-0',
+    inFlight: [{ id: '0-0', fetchMonoMs: 0 }],
+    abortControllers: { '0-0': abortController },
+  }
+  retainKey(dispatch, 'user')
+  reset()
+  t.true(abortController.signal.aborted)
+  t.deepEqual(scope.fetchStateByKey, {})
+  t.is(getSubscriberCount(dispatch, 'user'), 0)
+})
+
+test('mock fetchers', async (t) => {
+  const fetchers = createMockFetchers()
+
+  fetchers.respond('a', { queryData: 1 })
+  t.deepEqual(await fetchers.fetcher('a')(), { queryData: 1 })
+
+  fetchers.fail('b', { status: 500 }, { delayMs: 5 })
+  t.deepEqual(
+    await fetchers
+      .fetcher('b')()
+      .catch((e) => e),
+    { status: 500 },
+  )
+
+  const first = fetchers.fetcher('c')()
+  const second = fetchers.fetcher('c')()
+  t.is(fetchers.requests('c').length, 2)
+  fetchers.requests('c')[1]?.resolve('second')
+  fetchers.resolve('c', 'first')
+  t.deepEqual(await Promise.all([first, second]), ['first', 'second'])
+
+  const abortController = new AbortController()
+  const aborted = fetchers.fetcher('d')(abortController.signal)
+  abortController.abort()
+  t.like(await aborted.catch((e) => e), { name: 'AbortError' })
+
+  fetchers.handle('e', (request) => ({ response: fetchers.requests(request.key).length }))
+  t.is(await fetchers.fetcher('e')(), 1)
+  t.is(await fetchers.fetcher('e')(), 2)
+
+  fetchers.reset()
+  t.is(fetchers.requests('a').length, 0)
+})
+
+test('query dedupes requests, drops stale responses, and emits lifecycle events', async (t) => {
+  const { dispatch, getBranch, settled } = createTestStore()
+  const fetchers = createMockFetchers()
+  const events: QueryEventType[] = []
+  const onEvent = ({ type }: { type: QueryEventType }) => events.push(type)
+
+  query('a', fetchers.fetcher('a'), { dispatch, onEvent })
+  t.is(await query('a', fetchers.fetcher('a'), { dispatch, dedupe: true, onEvent }), undefined)
+  t.is(fetchers.requests('a').length, 1)
+
+  // Response to earlier request is dropped if request sent later already saved its response
+  await wait(2)
+  query('a', fetchers.fetcher('a'), { dispatch, onEvent })
+  fetchers.requests('a')[1]?.resolve({ queryData: { v: 2 } })
+  await wait(0)
+  fetchers.requests('a')[0]?.resolve({ queryData: { v: 1 } })
+  await settled()
+  t.deepEqual(getBranch().a?.data, { v: 2 })
+  t.deepEqual(getBranch().a?.inFlight, [])
+  t.deepEqual(events, ['started', 'deduped', 'started', 'succeeded', 'stale-response-dropped'])
+})
+
+test('query ignores response of aborted request, and retries errors', async (t) => {
+  const { dispatch, getBranch, settled } = createTestStore()
+  const fetchers = createMockFetchers()
+  const events: QueryEventType[] = []
+  const onEvent = ({ type }: { type: QueryEventType }) => events.push(type)
+
+  const abortController = new AbortController()
+  const aborted = query('a', fetchers.fetcher('a'), { dispatch, signal: abortController.signal, onEvent })
+  abortController.abort()
+  t.is(await aborted, undefined)
+  t.is(getBranch().a?.data, undefined)
+  t.deepEqual(getBranch().a?.inFlight, [])
+  t.deepEqual(events, ['started', 'cancelled'])
+
+  // Request isn't aborted while caller whose request was deduped against it still waits for its response
+  const first = new AbortController()
+  const second = new AbortController()
+  const shared = query('c', fetchers.fetcher('c'), { dispatch, signal: first.signal })
+  query('c', fetchers.fetcher('c'), { dispatch, signal: second.signal, dedupe: true })
+  first.abort()
+  fetchers.resolve('c', { queryData: { v: 1 } })
+  await shared
+  t.deepEqual(getBranch().c?.data, { v: 1 })
+
+  // Request is aborted once every caller waiting for it is gone
+  const third = new AbortController()
+  const fourth = new AbortController()
+  const abortedShared = query('d', fetchers.fetcher('d'), { dispatch, signal: third.signal })
+  query('d', fetchers.fetcher('d'), { dispatch, signal: fourth.signal, dedupe: true })
+  third.abort()
+  fourth.abort()
+  t.is(await abortedShared, undefined)
+  t.deepEqual(getBranch().d?.inFlight, [])
+
+  events.length = 0
+  fetchers.handle('b', (request) => {
+    if (fetchers.requests(request.key).length < 3) return { error: { status: 500 } }
+    return { response: { queryData: { ok: true } } }
+  })
+  query('b', fetchers.fetcher('b'), { dispatch, retry: 2, retryDelayMs: () => 1, onEvent })
+  await settled()
+  t.like(getBranch().b, { data: { ok: true }, retryCount: 2, nextRetryMs: undefined })
+  t.deepEqual(events, ['started', 'retried', 'retried', 'succeeded'])
+})
+
+test('query passes fetched data to lifecycle callbacks, even if it saves normalized data', async (t) => {
+  const { dispatch, getBranch } = createTestStore()
+  const fetchers = createMockFetchers()
+  fetchers.respond('user', { queryData: { id: 1, name: 'kyle' } })
+
+  const received: {}[] = []
+  await query('user', fetchers.fetcher('user'), {
+    dispatch,
+    schema: entity('users'),
+    onSuccess: (data) => received.push(data),
+    onSettled: (data) => received.push(data),
+  })
+  t.deepEqual(getBranch().user?.data, { result: 1 })
+  t.deepEqual(received, [
+    { id: 1, name: 'kyle' },
+    { id: 1, name: 'kyle' },
+  ])
+})
+
+test('mutate commits optimistic updates, and rolls them back if request fails or is aborted', async (t) => {
+  const fetchers = createMockFetchers()
+  const { dispatch, getBranch } = createTestStore({ preloadedState: { todos: { data: { ids: [1] }, dataMs: 1 } } })
+  const addTodo = (id: number) => ({
+    key: 'todos',
+    updater: (todos: { ids: number[] } = { ids: [] }) => ({ ids: [...todos.ids, id] }),
+  })
+
+  fetchers.respond('addTodo', { queryData: { id: 2 } })
+  await mutate('addTodo', fetchers.fetcher('addTodo'), { dispatch, optimisticUpdates: [addTodo(2)] })
+  t.deepEqual(getBranch().todos?.data, { ids: [1, 2] })
+
+  fetchers.fail('addTodo', { message: 'failed' })
+  await mutate('addTodo', fetchers.fetcher('addTodo'), { dispatch, optimisticUpdates: [addTodo(3)] })
+  t.deepEqual(getBranch().todos?.data, { ids: [1, 2] })
+  t.like(getBranch().addTodo, { error: { message: 'failed' } })
+
+  fetchers.reset()
+  const events: QueryEventType[] = []
+  const response = mutate('addTodo', fetchers.fetcher('addTodo'), {
+    dispatch,
+    optimisticUpdates: [addTodo(4)],
+    onEvent: ({ type }) => events.push(type),
+  })
+  t.deepEqual(getBranch().todos?.data, { ids: [1, 2, 4] })
+  cancel('addTodo', { dispatch })
+  t.is(await response, undefined)
+  t.deepEqual(events, ['started', 'cancelled'])
+  t.deepEqual(getBranch().todos?.data, { ids: [1, 2] })
+})
+
+test('queryInfinite appends and prepends pages, and refreshes loaded pages in order', async (t) => {
+  const { dispatch, getBranch } = createTestStore()
+  const fetched: number[] = []
+  const fetcher = async (page: number) => {
+    fetched.push(page)
+    return { queryData: { items: [page * 10] } }
+  }
+  const options = {
+    dispatch,
+    dedupe: true,
+    getNextPageParam: (_: unknown, __: unknown[], pageParams: number[]) => {
+      const next = pageParams[pageParams.length - 1] + 1
+      return next <= 3 ? next : undefined
+    },
+    getPreviousPageParam: (_: unknown, __: unknown[], pageParams: number[]) => {
+      const previous = pageParams[0] - 1
+      return previous >= 0 ? previous : undefined
+    },
+  }
+  const getData = () => getBranch().feed?.data
+
+  await queryInfinite('feed', fetcher, { ...options, initialPageParam: 1 })
+  t.deepEqual(getData(), { pages: [{ items: [10] }], pageParams: [1] })
+
+  // Pages fetched right after each other aren't deduped, because they're different pages
+  await queryInfinite('feed', fetcher, { ...options, data: getData(), direction: 'next' })
+  await queryInfinite('feed', fetcher, { ...options, data: getData(), direction: 'previous' })
+  t.deepEqual(getData(), { pages: [{ items: [0] }, { items: [10] }, { items: [20] }], pageParams: [0, 1, 2] })
+
+  await queryInfinite('feed', fetcher, { ...options, data: getData(), direction: 'next' })
+  t.is(getNextPageParam(getData(), options), undefined)
+  t.is(await queryInfinite('feed', fetcher, { ...options, data: getData(), direction: 'next' }), undefined)
+
+  fetched.length = 0
+  await queryInfinite('feed', fetcher, { ...options, dedupe: false, data: getData(), direction: 'refresh' })
+  t.deepEqual(fetched, [0, 1, 2, 3])
+  t.deepEqual(getData()?.pageParams, [0, 1, 2, 3])
+})
+
+test('combineEventListeners calls every listener', async (t) => {
+  const calls: string[] = []
+  const listener = combineEventListeners(
+    () => calls.push('config'),
+    undefined,
+    () => calls.push('hook'),
+  )
+  listener?.({ type: 'started', key: 'a', requestId: '0-0', durationMs: 0 })
+  t.deepEqual(calls, ['config', 'hook'])
+  t.is(combineEventListeners(undefined), undefined)
+})
+
+test('batcher coalesces requests into one batch', async (t) => {
+  const batches: number[][] = []
+  const batcher = createBatcher({
+    fetcher: async (ids: number[]) => {
+      batches.push(ids)
+      return ids.map((id) => (id === 3 ? new Error('not found') : { id }))
+    },
+    maxSize: 3,
+    getId: String,
+  })
+
+  const results = await Promise.all([1, 2, 1, 3, 4].map((id) => batcher.load(id).catch((e: Error) => e.message)))
+  t.deepEqual(results, [{ id: 1 }, { id: 2 }, { id: 1 }, 'not found', { id: 4 }])
+  t.deepEqual(batches, [[1, 2, 3], [4]])
+
+  const objectBatcher = createBatcher({
+    fetcher: async (ids: string[]) => {
+      if (ids.includes('fail')) throw 'down'
+      return { a: 'A' }
+    },
+  })
+  t.deepEqual(await Promise.all(['a', 'b'].map((id) => objectBatcher.load(id).catch((e: Error) => e.message))), [
+    'A',
+    'react-redux-query: no result for "b" in batch',
+  ])
+  t.is(await objectBatcher.load('fail').catch((e) => e), 'down')
+
+  const abortController = new AbortController()
+  const aborted = objectBatcher.fetcher('a')(abortController.signal)
+  abortController.abort()
+  t.like(await aborted.catch((e) => e), { name: 'AbortError' })
+
+  // Object params with same properties in different order are merged, and their result is found by same id
+  const paramsBatcher = createBatcher({
+    fetcher: async (params: { id: number; lang: string }[]) => {
+      batches.push(params.map(({ id }) => id))
+      return { [stableStringify({ lang: 'en', id: 5 })]: 'five' }
+    },
+  })
+  t.deepEqual(
+    await Promise.all([paramsBatcher.load({ id: 5, lang: 'en' }), paramsBatcher.load({ lang: 'en', id: 5 })]),
+    ['five', 'five'],
+  )
+  t.deepEqual(batches[batches.length - 1], [5])
+})
+
+test('subscriptions are shared per key, and merge emitted data', async (t) => {
+  const store = createStore({})
+  let connections = 0
+  let emitPrice: (price: number) => void = () => {}
+  const subscribe = (emit: (data: { prices: number[] }) => void, controls: { open: () => void }) => {
+    connections += 1
+    emitPrice = (price) => emit({ prices: [price] })
+    controls.open()
+    return () => {
+      connections -= 1
+    }
+  }
+  const updater = (data: { prices: number[] } | undefined, newData: { prices: number[] }) => ({
+    prices: [...(data?.prices || []), ...newData.prices],
+  })
+
+  const release = subscribeKey(store.dispatch, 'prices', subscribe, { updater })
+  const releaseOther = subscribeKey(store.dispatch, 'prices', subscribe, { updater })
+  t.is(connections, 1)
+  t.is(store.state.prices?.connection, 'open')
+  t.is(getSubscriberCount(store.dispatch, 'prices'), 1)
+
+  emitPrice(1)
+  emitPrice(2)
+  t.deepEqual(store.state.prices?.data, { prices: [1, 2] })
+
+  release()
+  release()
+  t.is(connections, 1)
+  releaseOther()
+  t.is(connections, 0)
+  t.is(store.state.prices?.connection, 'closed')
+  t.is(getSubscriberCount(store.dispatch, 'prices'), 0)
+
+  // Source can't update query state after subscription is closed
+  emitPrice(3)
+  t.deepEqual(store.state.prices?.data, { prices: [1, 2] })
+
+  subscribeKey(store.dispatch, 'ticker', (_, { error }) => {
+    error({ message: 'connection lost' })
+    return () => {}
+  })
+  t.like(store.state.ticker, { connection: 'error', error: { message: 'connection lost' } })
+
+  // Subscriber after subscribe throws connects again
+  let attempts = 0
+  const flaky = (_: unknown, { open }: { open: () => void }) => {
+    attempts += 1
+    if (attempts === 1) throw { message: 'refused' }
+    open()
+    return () => {}
+  }
+  subscribeKey(store.dispatch, 'flaky', flaky)()
+  t.like(store.state.flaky, { connection: 'error', error: { message: 'refused' } })
+  t.is(getSubscriberCount(store.dispatch, 'flaky'), 0)
+  subscribeKey(store.dispatch, 'flaky', flaky)
+  t.is(attempts, 2)
+  t.is(store.state.flaky?.connection, 'open')
+})
+
+function createNoteMutations(sent: number[]) {
+  return {
+    addNote: {
+      key: 'addNote',
+      fetcher: async (note: number) => {
+        sent.push(note)
+        if (note < 0) throw { status: 409 }
+        return { queryData: note }
+      },
+      optimisticUpdates: (note: number) => [
+        { key: 'notes', updater: (notes: { ids: number[] } = { ids: [] }) => ({ ids: [...notes.ids, note] }) },
+      ],
+    },
+  }
+}
+
+test('mutation queue sends mutations in order once network reconnects, and restores them after reload', async (t) => {
+  const storage = createMemoryStorage()
+  const eventSource = createFakeEventSource({ online: false })
+  const sent: number[] = []
+  const mutations = createNoteMutations(sent)
+
+  const { dispatch, getBranch } = createTestStore()
+  const queue = createMutationQueue({ dispatch, storage, eventSource, mutations })
+  await queue.mutate('addNote', 1)
+  const discarded = await queue.mutate('addNote', 2)
+  await queue.mutate('addNote', 3)
+  t.deepEqual(getBranch().notes?.data, { ids: [1, 2, 3] })
+  t.deepEqual(sent, [])
+
+  await queue.discard(discarded.id)
+  t.deepEqual(getBranch().notes?.data, { ids: [1, 3] })
+  queue.stop()
+
+  const reloaded = createTestStore()
+  const restoredQueue = createMutationQueue({ dispatch: reloaded.dispatch, storage, eventSource, mutations })
+  await restoredQueue.restored
+  t.deepEqual(
+    restoredQueue.getMutations().map(({ variables }) => variables),
+    [1, 3],
+  )
+  t.deepEqual(reloaded.getBranch().notes?.data, { ids: [1, 3] })
+
+  eventSource.setOnline(true)
+  await restoredQueue.replay()
+  t.deepEqual(sent, [1, 3])
+  t.deepEqual(restoredQueue.getMutations(), [])
+  t.deepEqual(reloaded.getBranch().notes?.data, { ids: [1, 3] })
+  t.like(JSON.parse((await storage.getItem('react-redux-query-mutations')) as string), { mutations: [] })
+  restoredQueue.stop()
+})
+
+test('mutation queue restored with persisted query branch applies optimistic updates once', async (t) => {
+  const storage = createMemoryStorage()
+  const eventSource = createFakeEventSource({ online: false })
+  const mutations = createNoteMutations([])
+
+  const { store, dispatch, getBranch } = createTestStore()
+  const persistor = persistQueryBranch(store, { storage, throttleMs: 0 })
+  await persistor.restored
+  dispatch(save({ key: 'notes', data: { ids: [0] } }))
+  const queue = createMutationQueue({ dispatch, storage, eventSource, mutations })
+  await queue.mutate('addNote', -1)
+  await persistor.flush()
+  persistor.stop()
+  queue.stop()
+  t.deepEqual(getBranch().notes?.data, { ids: [0, -1] })
+
+  // Persisted query branch already has optimistic update applied, whichever is restored first
+  const reloaded = createTestStore()
+  const conflicts: {}[] = []
+  const restoredQueue = createMutationQueue({
+    dispatch: reloaded.dispatch,
+    storage,
+    eventSource,
+    mutations,
+    isConflict: (error) => (error as { status?: number }).status === 409,
+    onConflict: (_, error) => conflicts.push(error),
+  })
+  const reloadedPersistor = persistQueryBranch(reloaded.store, { storage })
+  await Promise.all([restoredQueue.restored, reloadedPersistor.restored])
+  reloadedPersistor.stop()
+  t.deepEqual(reloaded.getBranch().notes?.data, { ids: [0, -1] })
+
+  // Rolling back conflicting mutation restores data from before it was queued
+  eventSource.setOnline(true)
+  await restoredQueue.replay()
+  t.deepEqual(conflicts, [{ status: 409 }])
+  t.deepEqual(reloaded.getBranch().notes?.data, { ids: [0] })
+  restoredQueue.stop()
+})
+
+test('mutation queue reports storage errors with onError, and keeps working without storage', async (t) => {
+  const errors: [unknown, {}][] = []
+  const storage = {
+    getItem: async () => {
+      throw new Error('blocked')
+    },
+    setItem: async () => {
+      throw new Error('quota exceeded')
+    },
+    removeItem: () => {},
+  }
+  const sent: number[] = []
+  const { dispatch, getBranch } = createTestStore()
+  const queue = createMutationQueue({
+    dispatch,
+    storage,
+    eventSource: createFakeEventSource(),
+    mutations: createNoteMutations(sent),
+    onError: (mutation, error) => errors.push([mutation, error]),
+  })
+  await queue.restored
+  t.deepEqual(errors, [[undefined, new Error('blocked')]])
+
+  await queue.mutate('addNote', 1)
+  await queue.replay()
+  t.deepEqual(sent, [1])
+  t.deepEqual(getBranch().notes?.data, { ids: [1] })
+  t.deepEqual(queue.getMutations(), [])
+  t.true(errors.length > 1)
+  t.true(errors.every(([mutation]) => mutation === undefined))
+  queue.stop()
+})
+
+test('mutation queue retries network errors while online, and keeps cancelled mutations queued', async (t) => {
+  const fetchers = createMockFetchers()
+  const { dispatch, getBranch } = createTestStore()
+  const succeeded: number[] = []
+  let calls = 0
+  const queue = createMutationQueue({
+    dispatch,
+    eventSource: createFakeEventSource(),
+    retryDelayMs: () => 10,
+    mutations: {
+      addNote: {
+        key: 'addNote',
+        fetcher: () => {
+          calls += 1
+          return fetchers.fetcher('addNote')()
+        },
+        optimisticUpdates: (note: number) => [{ key: 'notes', updater: () => ({ ids: [note] }) }],
+      },
+    },
+    onSuccess: (mutation) => succeeded.push(mutation.variables),
+  })
+
+  fetchers.fail('addNote', new TypeError('Failed to fetch'))
+  await queue.mutate('addNote', 1)
+  await queue.replay()
+  t.is(calls, 1)
+  t.is(queue.getMutations().length, 1)
+
+  // Request sent by retry is cancelled, so mutation stays queued, and its optimistic update is kept
+  fetchers.reset()
+  await new Promise((resolve) => setTimeout(resolve, 50))
+  t.is(calls, 2)
+  cancel('addNote', { dispatch })
+  // Mutation fetcher doesn't receive signal, so its response arrives, but it's ignored
+  fetchers.resolve('addNote', { queryData: {} })
+  await queue.replay()
+  t.deepEqual(succeeded, [])
+  t.is(queue.getMutations().length, 1)
+  t.deepEqual(getBranch().notes?.data, { ids: [1] })
+
+  fetchers.respond('addNote', { queryData: {} })
+  await new Promise((resolve) => setTimeout(resolve, 50))
+  t.is(calls, 3)
+  t.deepEqual(succeeded, [1])
+  t.deepEqual(queue.getMutations(), [])
+  t.deepEqual(getBranch().notes?.data, { ids: [1] })
+  queue.stop()
+})
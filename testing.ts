@@ -0,0 +1,164 @@
+import { applyMiddleware, combineReducers, createStore, Dispatch, Middleware } from 'redux'
+
+import { createQueryReducer, getNamespacedDispatch } from './namespace'
+import { QueryBranch } from './query'
+import { getScope } from './scope'
+
+export interface TestStoreOptions {
+  preloadedState?: QueryBranch
+  namespace?: string
+  middleware?: Middleware[]
+}
+
+export interface MockRequest {
+  key: string
+  signal?: AbortSignal
+  settled: boolean
+  resolve: (response: unknown) => void
+  reject: (error: {}) => void
+}
+
+export type MockResult = { response: unknown; delayMs?: number } | { error: {}; delayMs?: number }
+
+/**
+ * Waits until all queries sent with dispatch function have settled, including queries sent while waiting. With fake
+ * timers, advance timers until fetchers and retries have settled, or this never resolves.
+ *
+ * @param dispatch - Dispatch function passed to query, or used by hooks
+ */
+export async function waitForQueries(dispatch: Dispatch) {
+  const { pendingQueries } = getScope(dispatch)
+  while (pendingQueries.size) {
+    const pending: Promise<void>[] = []
+    pendingQueries.forEach((promise) => pending.push(promise))
+    await Promise.all(pending)
+  }
+}
+
+/**
+ * Resets runtime state that RRQ keeps for dispatch function, e.g. in-flight requests used for dedupe, subscriber counts
+ * and eviction timers, so it doesn't leak between tests that share a store. In-flight requests are aborted, and
+ * subscriptions are closed.
+ *
+ * @param dispatch - Dispatch function passed to query, or used by hooks
+ */
+export function resetScope(dispatch: Dispatch) {
+  const scope = getScope(dispatch)
+  const { fetchStateByKey, cacheEntries } = scope
+
+  for (const key of Object.keys(fetchStateByKey)) {
+    const abortControllers = fetchStateByKey[key]?.abortControllers || {}
+    for (const id of Object.keys(abortControllers)) abortControllers[id].abort()
+    delete fetchStateByKey[key]
+  }
+  cacheEntries.forEach((entry) => clearTimeout(entry.timeoutId as ReturnType<typeof setTimeout>))
+  cacheEntries.clear()
+  scope.optimisticStates.clear()
+  scope.activeQueries.clear()
+  scope.suspenseRequests.clear()
+  scope.subscriptions.forEach((subscription) => subscription.unsubscribe())
+  scope.subscriptions.clear()
+}
+
+/**
+ * Creates Redux store with query branch at query key, for tests. Each test store has its own runtime state, so tests
+ * that create their own store never share in-flight requests or eviction timers.
+ *
+ * @param options - Options object
+ * @param options.preloadedState - Initial query branch
+ * @param options.namespace - If passed, query branch reducer and dispatch function are namespaced
+ * @param options.middleware - Middleware to apply to store, e.g. query middleware
+ *
+ * @returns Object with store; dispatch, namespaced dispatch function to pass to query and other RRQ functions;
+ *  getBranch, which returns query branch; settled, which waits for all queries to settle; and reset, which resets
+ *  runtime state of store
+ */
+export function createTestStore(options: TestStoreOptions = {}) {
+  const { preloadedState, namespace, middleware = [] } = options
+  const store = createStore(
+    combineReducers({ query: createQueryReducer({ namespace }) }),
+    preloadedState && { query: preloadedState },
+    applyMiddleware(...middleware),
+  )
+  const dispatch = getNamespacedDispatch(store.dispatch, namespace)
+
+  return {
+    store,
+    dispatch,
+    getBranch: () => store.getState().query,
+    settled: () => waitForQueries(dispatch),
+    reset: () => resetScope(dispatch),
+  }
+}
+
+/**
+ * Creates registry of mock fetchers keyed by query key. Fetcher for key responds with result set for key with respond
+ * or fail, after delayMs if it's passed; otherwise its requests stay pending until they're resolved or rejected.
+ * Delays use global setTimeout, so they work with fake timers; results without delay settle in a microtask.
+ *
+ * Pending request is rejected with AbortError if its signal is aborted.
+ *
+ * @returns Object with fetcher, which returns mock fetcher for key; respond and fail, which set result for key;
+ *  handle, which sets function that receives each request for key and returns its result; resolve and reject, which
+ *  settle pending requests for key; requests, which returns requests sent for key, so they can be settled out of order;
+ *  and reset, which clears results and requests
+ */
+export function createMockFetchers() {
+  const results = new Map<string, MockResult | ((request: MockRequest) => MockResult)>()
+  const requestsByKey = new Map<string, MockRequest[]>()
+
+  const settle = (request: MockRequest, result: MockResult) => {
+    const run = () => ('error' in result ? request.reject(result.error) : request.resolve(result.response))
+    if (result.delayMs) setTimeout(run, result.delayMs)
+    else Promise.resolve().then(run)
+  }
+
+  const requests = (key: string) => requestsByKey.get(key) || []
+
+  return {
+    fetcher: <R = any>(key: string) => (signal?: AbortSignal) => {
+      return new Promise<R>((resolve, reject) => {
+        const request: MockRequest = {
+          key,
+          signal,
+          settled: false,
+          resolve: (response) => {
+            if (request.settled) return
+            request.settled = true
+            resolve(response as R)
+          },
+          reject: (error) => {
+            if (request.settled) return
+            request.settled = true
+            reject(error)
+          },
+        }
+        requestsByKey.set(key, [...requests(key), request])
+
+        signal?.addEventListener('abort', () => request.reject({ name: 'AbortError', message: 'Request aborted' }))
+        const result = results.get(key)
+        if (result) settle(request, typeof result === 'function' ? result(request) : result)
+      })
+    },
+    respond: (key: string, response: unknown, options: { delayMs?: number } = {}) => {
+      results.set(key, { response, delayMs: options.delayMs })
+    },
+    fail: (key: string, error: {}, options: { delayMs?: number } = {}) => {
+      results.set(key, { error, delayMs: options.delayMs })
+    },
+    handle: (key: string, handler: (request: MockRequest) => MockResult) => {
+      results.set(key, handler)
+    },
+    resolve: (key: string, response: unknown) => {
+      for (const request of requests(key)) request.resolve(response)
+    },
+    reject: (key: string, error: {}) => {
+      for (const request of requests(key)) request.reject(error)
+    },
+    requests,
+    reset: () => {
+      results.clear()
+      requestsByKey.clear()
+    },
+  }
+}